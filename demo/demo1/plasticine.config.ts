@@ -1,5 +1,6 @@
 import {
   boolean,
+  collection,
   date,
   defineConfig,
   image,
@@ -7,20 +8,28 @@ import {
   reference,
   schema,
   select,
+  singleton,
   slug,
   text,
   textarea,
-} from '@plasticine/core'
+} from '@plasticine/core/config'
 import { array, object, optional } from 'valibot'
 
 export default defineConfig({
-  authors: schema(
-    object({
-      slug: slug({ label: 'Slug' }),
-      name: text({ label: 'Name', placeholder: 'John Doe' }),
-      bio: optional(textarea({ label: 'Bio', placeholder: 'A short bio...' })),
-      avatar: optional(image({ label: 'Avatar', path: 'avatars' })),
-    }),
+  authors: collection(
+    schema(
+      object({
+        slug: slug({ label: 'Slug' }),
+        name: text({ label: 'Name', placeholder: 'John Doe' }),
+        bio: optional(textarea({ label: 'Bio', placeholder: 'A short bio...' })),
+        avatar: optional(image({ label: 'Avatar', path: 'avatars' })),
+      }),
+    ),
+    {
+      description: 'People who write posts',
+      title: 'name',
+      sort: { field: 'name' },
+    },
   ),
   posts: schema(
     object({
@@ -58,6 +67,15 @@ export default defineConfig({
       images: [],
     }),
   ),
+  settings: singleton(
+    schema(
+      object({
+        title: text({ label: 'Site Title' }),
+        description: optional(textarea({ label: 'Description' })),
+      }),
+    ),
+    { path: 'settings', label: 'Site Settings' },
+  ),
   pages: schema(
     object({
       slug: slug({ label: 'Slug' }),
@@ -1,4 +1,4 @@
-import { createGitHubClient, Infer } from '@plasticine/core'
+import { createGitHubClient, createStaticClient, Infer } from '@plasticine/core'
 import { createResource, For, Show, Suspense } from 'solid-js'
 import config from '../plasticine.config'
 import './App.css'
@@ -7,13 +7,21 @@ import './App.css'
 type Author = Infer<typeof config.collections.authors>
 type Post = Infer<typeof config.collections.posts>
 
-// Create type-safe content client
-const content = createGitHubClient(config, {
-  owner: import.meta.env.VITE_GITHUB_OWNER || 'bigmistqke',
-  repo: import.meta.env.VITE_GITHUB_REPO || 'plasticine-cms',
-  branch: import.meta.env.VITE_GITHUB_BRANCH || 'main',
-  contentPath: import.meta.env.VITE_GITHUB_CONTENT_PATH || 'demo/demo1/content',
-})
+// Create type-safe content client - locally, read the working copy bundled by @plasticine/vite.
+// The snapshot is imported lazily so it stays out of the bundle in GitHub mode.
+const content =
+  import.meta.env.VITE_PLASTICINE_LOCAL === 'true'
+    ? import('virtual:plasticine/content').then(({ snapshot }) =>
+        createStaticClient(config, snapshot),
+      )
+    : Promise.resolve(
+        createGitHubClient(config, {
+          owner: import.meta.env.VITE_GITHUB_OWNER || 'bigmistqke',
+          repo: import.meta.env.VITE_GITHUB_REPO || 'plasticine-cms',
+          branch: import.meta.env.VITE_GITHUB_BRANCH || 'main',
+          contentPath: import.meta.env.VITE_GITHUB_CONTENT_PATH || 'demo/demo1/content',
+        }),
+      )
 
 function PostCard(props: { post: Post; authors: Author[] }) {
   const author = () => props.authors.find(a => a.slug === props.post.author)
@@ -57,24 +65,22 @@ function AuthorCard(props: { author: Author }) {
 }
 
 export default function App() {
-  const [posts] = createResource(() => content.posts.getAll())
-  const [authors] = createResource(() => content.authors.getAll())
+  const [posts] = createResource(async () =>
+    (await content).posts.query().where('draft', '==', false).orderBy('publishedAt', 'desc'),
+  )
+  const [authors] = createResource(async () => (await content).authors.getAll())
+  const [settings] = createResource(async () =>
+    (await content).settings.get().catch(() => undefined),
+  )
 
-  const publishedPosts = () =>
-    (posts() || [])
-      .map(p => p.data)
-      .filter(p => !p.draft)
-      .sort((a, b) => {
-        if (!a.publishedAt || !b.publishedAt) return 0
-        return new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
-      })
+  const publishedPosts = () => (posts() || []).map(p => p.data)
 
   const authorsList = () => (authors() || []).map(a => a.data)
 
   return (
     <div class="app">
       <header class="header">
-        <h1>My Blog</h1>
+        <h1>{settings()?.title ?? 'My Blog'}</h1>
         <nav>
           <a href="#posts">Posts</a>
           <a href="#authors">Authors</a>
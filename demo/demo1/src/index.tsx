@@ -1,5 +1,11 @@
 /* @refresh reload */
-import { CMS, createGithubAuth, createGithubBackend } from '@plasticine/core'
+import {
+  CMS,
+  createGithubAuth,
+  createGithubBackend,
+  createLocalAuth,
+  createLocalBackend,
+} from '@plasticine/core'
 import '@plasticine/core/styles.css'
 import { Route, Router } from '@solidjs/router'
 import 'solid-devtools'
@@ -7,14 +13,19 @@ import { render } from 'solid-js/web'
 import config from '../plasticine.config'
 import App from './App'
 
-const backend = createGithubBackend({
-  owner: import.meta.env.VITE_GITHUB_OWNER || 'bigmistqke',
-  repo: import.meta.env.VITE_GITHUB_REPO || 'plasticine-cms',
-  branch: import.meta.env.VITE_GITHUB_BRANCH || 'main',
-  contentPath: import.meta.env.VITE_GITHUB_CONTENT_PATH || 'demo/demo1/content',
-})
+// Set VITE_PLASTICINE_LOCAL=true and run `pnpm cms` to edit the local working copy
+const local = import.meta.env.VITE_PLASTICINE_LOCAL === 'true'
 
-const auth = createGithubAuth()
+const backend = local
+  ? createLocalBackend()
+  : createGithubBackend({
+      owner: import.meta.env.VITE_GITHUB_OWNER || 'bigmistqke',
+      repo: import.meta.env.VITE_GITHUB_REPO || 'plasticine-cms',
+      branch: import.meta.env.VITE_GITHUB_BRANCH || 'main',
+      contentPath: import.meta.env.VITE_GITHUB_CONTENT_PATH || 'demo/demo1/content',
+    })
+
+const auth = local ? createLocalAuth() : createGithubAuth()
 
 const root = document.getElementById('root')
 
@@ -35,7 +46,10 @@ render(
             config={config}
             backend={backend}
             auth={auth}
-            schemaPath={import.meta.env.VITE_SCHEMA_PATH || 'demo/demo1/config.ts'}
+            schemaPath={
+              import.meta.env.VITE_SCHEMA_PATH ||
+              (local ? 'plasticine.config.ts' : 'demo/demo1/config.ts')
+            }
           />
         )}
       />
@@ -0,0 +1,8 @@
+// Generated by @plasticine/vite - do not edit
+declare module 'virtual:plasticine/content' {
+  type Collections = (typeof import('../plasticine.config'))['default']['collections']
+
+  export const snapshot: import('@plasticine/core').ContentSnapshot
+  const content: import('@plasticine/vite').PlasticineContent<Collections>
+  export default content
+}
@@ -1,10 +1,11 @@
+import { plasticine } from '@plasticine/vite';
 import devtools from 'solid-devtools/vite';
 import { defineConfig } from 'vite';
 import solidPlugin from 'vite-plugin-solid';
 
 export default defineConfig({
   base: '/plasticine-cms/',
-  plugins: [devtools(), solidPlugin()],
+  plugins: [devtools(), solidPlugin(), plasticine()],
   server: {
     port: 3000,
   },
@@ -0,0 +1,314 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { extname, isAbsolute, relative, resolve } from "node:path";
+import { Readable } from "node:stream";
+import type { Change } from "@plasticine/core";
+import { createFilesystemBackend } from "@plasticine/core/filesystem";
+import { loadConfig } from "../load-config.ts";
+
+interface DevOptions {
+  config: string;
+  root: string;
+  content: string;
+  port: string;
+  host: string;
+  origin?: string;
+  schema: string;
+  mediaUrl?: string;
+}
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+const MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".ico": "image/x-icon",
+  ".pdf": "application/pdf",
+  ".json": "application/json",
+};
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(body === undefined ? "{}" : JSON.stringify(body));
+}
+
+/**
+ * Whether a web origin (or a Host header) points at this machine, on any port
+ */
+function isLoopback(host: string) {
+  try {
+    const url = new URL(host.includes("://") ? host : `http://${host}`);
+    return LOOPBACK_HOSTS.includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse JSON from a client, failing with a 400 when it's malformed
+ */
+function parseJson(text: string, what: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, `Malformed ${what}`);
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Read a JSON object request body
+ */
+async function readBody(request: Request): Promise<Record<string, unknown>> {
+  const body = parseJson(await request.text(), "request body");
+  if (!isObject(body)) throw new HttpError(400, "Expected a JSON object");
+  return body;
+}
+
+const CHANGE_TYPES = ["saveItem", "deleteItem", "uploadFile", "deleteFile", "moveFile"];
+
+/**
+ * Whether a value from the client has the shape of a change (fields are checked as they're used)
+ */
+const isChange = (value: unknown): value is Change =>
+  isObject(value) && CHANGE_TYPES.includes(value.type as string);
+
+/**
+ * A sha sent by the client - optional, but a string when it's there
+ */
+function optionalSha(sha: unknown): string | undefined {
+  if (sha === undefined || sha === null || typeof sha === "string") return sha ?? undefined;
+  throw new HttpError(400, "Expected sha to be a string");
+}
+
+/**
+ * Read a multipart form body
+ */
+async function readForm(request: Request): Promise<FormData> {
+  try {
+    return await request.formData();
+  } catch {
+    throw new HttpError(400, "Malformed form data");
+  }
+}
+
+/**
+ * Convert a node request into a web Request, so we can use .json() and .formData()
+ */
+function toWebRequest(req: IncomingMessage, url: URL): Request {
+  return new Request(url, {
+    method: req.method,
+    headers: req.headers as Record<string, string>,
+    body:
+      req.method === "GET" || req.method === "HEAD"
+        ? undefined
+        : (Readable.toWeb(req) as ReadableStream),
+    duplex: "half",
+  } as RequestInit);
+}
+
+export async function dev(options: DevOptions) {
+  const root = resolve(options.root);
+  const contentPath = relative(root, resolve(options.content)).split("\\").join("/");
+  const port = Number(options.port);
+  const mediaUrl = options.mediaUrl || `http://localhost:${port}/files`;
+  const schemaPath = relative(root, resolve(root, options.schema)).split("\\").join("/");
+  const origins = options.origin?.split(",").map((origin) => origin.trim().replace(/\/$/, ""));
+
+  // Only the CMS may call the API - by default any page served from this machine
+  const allowOrigin = (origin: string) =>
+    origins ? origins.includes(origin) : isLoopback(origin);
+
+  /**
+   * Whether the API may touch a repo path: the content directory and the schema file only
+   */
+  const allowPath = (path: string) => {
+    const inContent = relative(resolve(root, contentPath), resolve(root, path));
+    if (inContent === "" || (!inContent.startsWith("..") && !isAbsolute(inContent))) return true;
+    return relative(root, resolve(root, path)).split("\\").join("/") === schemaPath;
+  };
+
+  const checkPath = (path: unknown) => {
+    if (typeof path !== "string" || !allowPath(path)) {
+      throw new HttpError(403, `Outside of the content directory: ${path}`);
+    }
+    return path;
+  };
+
+  // Without a config every collection is read and written as JSON
+  const config = existsSync(options.config) ? await loadConfig(options.config) : undefined;
+
+  const backend = createFilesystemBackend({ root, contentPath, mediaUrl }).createBackend(
+    undefined,
+    config,
+  );
+
+  /**
+   * Route an /api request to the filesystem backend
+   */
+  const handleApi = async (request: Request, segments: string[], url: URL): Promise<unknown> => {
+    const [resource, ...rest] = segments;
+    const method = request.method;
+
+    if (resource === "content") {
+      const [collection, id] = rest;
+      if (!collection) throw new HttpError(404, "Missing collection");
+      checkPath(`${contentPath}/${collection}/${id ?? ""}`);
+
+      if (!id && method === "GET") return backend.content.listCollection(collection);
+      if (id && method === "GET") return backend.content.getItem(collection, id);
+      if (id && method === "PUT") {
+        const { data, sha } = await readBody(request);
+        if (!isObject(data)) throw new HttpError(400, "Missing data");
+        return backend.content.saveItem(collection, id, data, optionalSha(sha));
+      }
+      if (id && method === "DELETE") {
+        const { sha } = await readBody(request);
+        return backend.content.deleteItem(collection, id, optionalSha(sha));
+      }
+    }
+
+    if (resource === "media") {
+      if (method === "GET") return backend.media.listMedia();
+      if (method === "POST") {
+        const form = await readForm(request);
+        const file = form.get("file");
+        if (!(file instanceof File)) throw new HttpError(400, "Missing file");
+        const folder = form.get("folder");
+        if (typeof folder === "string") checkPath(`${contentPath}/uploads/${folder}`);
+        return backend.media.uploadFile(file, typeof folder === "string" ? folder : undefined);
+      }
+      if (method === "DELETE") {
+        const { path, sha } = await readBody(request);
+        return backend.media.deleteFile(checkPath(path), optionalSha(sha));
+      }
+    }
+
+    if (resource === "files") {
+      if (method === "GET") {
+        const path = url.searchParams.get("path");
+        if (!path) throw new HttpError(400, "Missing path");
+        return backend.config.readFile(checkPath(path));
+      }
+      if (method === "PUT") {
+        const { path, content, sha } = await readBody(request);
+        if (typeof content !== "string") throw new HttpError(400, "Missing content");
+        return backend.config.writeFile(checkPath(path), content, optionalSha(sha));
+      }
+    }
+
+    if (resource === "changeset" && method === "POST") {
+      const form = await readForm(request);
+      const changes = parseJson(String(form.get("changes")), "changes");
+      if (!Array.isArray(changes) || !changes.every(isChange)) {
+        throw new HttpError(400, "Expected a list of changes");
+      }
+      // Uploads reference their multipart field by name
+      for (const change of changes) {
+        if ("collection" in change) {
+          checkPath(`${contentPath}/${change.collection}/${change.id}`);
+        } else {
+          checkPath(change.path);
+          if (change.type === "moveFile") checkPath(change.from);
+        }
+        if (change.type !== "uploadFile") continue;
+        // Sent as the name of the multipart field holding the file
+        const field: unknown = change.file;
+        const file = typeof field === "string" ? form.get(field) : null;
+        if (!(file instanceof File)) throw new HttpError(400, `Missing file for ${change.path}`);
+        change.file = file;
+      }
+      const result = await backend.applyChanges(changes);
+      console.log(`   ✓ ${form.get("message")}`);
+      return result;
+    }
+
+    throw new HttpError(404, `No route for ${method} /api/${segments.join("/")}`);
+  };
+
+  /**
+   * Serve a file from the content directory (used for media URLs)
+   */
+  const handleFile = async (res: ServerResponse, path: string) => {
+    const absolute = resolve(root, checkPath(path));
+
+    const buffer = await readFile(absolute).catch(() => {
+      throw new HttpError(404, `Not found: ${path}`);
+    });
+    res.writeHead(200, {
+      "Content-Type": MIME_TYPES[extname(path).toLowerCase()] || "application/octet-stream",
+    });
+    res.end(buffer);
+  };
+
+  const server = createServer(async (req, res) => {
+    const origin = req.headers.origin;
+    // Pages on other sites - or other hosts resolving to this one - get nothing
+    const foreignHost = isLoopback(options.host) && !isLoopback(req.headers.host ?? "");
+    if ((origin && !allowOrigin(origin)) || foreignHost) {
+      send(res, 403, { message: "Forbidden" });
+      return;
+    }
+    if (origin) {
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Vary", "Origin");
+    }
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url || "/", `http://localhost:${port}`);
+
+    try {
+      let segments: string[];
+      try {
+        segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+      } catch {
+        throw new HttpError(400, `Malformed path: ${url.pathname}`);
+      }
+
+      if (segments[0] === "api") {
+        const result = await handleApi(toWebRequest(req, url), segments.slice(1), url);
+        send(res, 200, result);
+      } else if (segments[0] === "files") {
+        await handleFile(res, segments.slice(1).join("/"));
+      } else {
+        throw new HttpError(404, "Not found");
+      }
+    } catch (err) {
+      const status = err instanceof HttpError ? err.status : 500;
+      const message = err instanceof Error ? err.message : String(err);
+      if (status === 500) console.error(`   ✗ ${req.method} ${url.pathname} - ${message}`);
+      send(res, status, { message });
+    }
+  });
+
+  server.listen(port, options.host, () => {
+    if (config) console.log(`Config: ${resolve(options.config)}`);
+    console.log(`Root: ${root}`);
+    console.log(`Content directory: ${contentPath}`);
+    console.log("");
+    console.log(`🚀 Plasticine dev server running at http://${options.host}:${port}`);
+  });
+}
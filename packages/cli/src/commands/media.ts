@@ -0,0 +1,106 @@
+import { basename, dirname, resolve } from "node:path";
+import type { PlasticineConfig } from "@plasticine/core";
+import { findMediaReferences, findUnusedMedia } from "@plasticine/core/config";
+import { createFilesystemBackend } from "@plasticine/core/filesystem";
+import { loadConfig } from "../load-config.ts";
+
+interface PruneOptions {
+  config: string;
+  content: string;
+  dryRun?: boolean;
+  force?: boolean;
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export async function prune(options: PruneOptions) {
+  const configPath = resolve(options.config);
+  const contentPath = resolve(options.content);
+
+  console.log(`Loading config from: ${configPath}`);
+  console.log(`Content directory: ${contentPath}`);
+  if (options.dryRun) console.log("(dry run - no files will be deleted)");
+  console.log("");
+
+  let config: PlasticineConfig;
+  try {
+    config = await loadConfig(configPath);
+  } catch (err) {
+    console.error(`Error loading config: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
+  // Media used only by an item that can't be read would look unused
+  const failed: string[] = [];
+  const backend = createFilesystemBackend({
+    root: dirname(contentPath),
+    contentPath: basename(contentPath),
+    onLoadError: (file, err) => {
+      failed.push(file);
+      console.error(`   ✗ ${file}: ${err instanceof Error ? err.message : err}`);
+    },
+  }).createBackend(undefined, config);
+
+  // Every url the content uses - in fields at any depth, rich text and markdown bodies
+  const urls = new Set<string>();
+  for (const collection of config.getCollections()) {
+    const schema = config.getSchema(collection);
+    for (const item of await backend.content.listCollection(collection)) {
+      // Files keep what a migration drops or renames - only prune what neither version uses
+      const versions: unknown[] = [item.data];
+      try {
+        versions.push(config.parseCollection(collection, item.data));
+      } catch {
+        // Invalid items still hold references - the raw data is walked all the same
+      }
+      for (const data of versions) {
+        for (const reference of findMediaReferences(schema, data)) urls.add(reference.url);
+      }
+    }
+  }
+
+  const files = await backend.media.listMedia();
+  const unused = findUnusedMedia(files, urls);
+
+  if (unused.length === 0) {
+    console.log(`✓ All ${files.length} media file(s) are used`);
+    return;
+  }
+
+  if (failed.length > 0 && !options.force && !options.dryRun) {
+    console.error(
+      `\n${failed.length} item file(s) could not be read, so their media may be in use.` +
+        " Fix them or run again with --force to delete anyway.",
+    );
+    process.exit(1);
+  }
+
+  for (const file of unused) {
+    console.log(`   ${options.dryRun ? "○" : "✗"} ${file.path} (${formatSize(file.size)})`);
+  }
+
+  const size = formatSize(unused.reduce((total, file) => total + file.size, 0));
+  if (options.dryRun) {
+    console.log(`\n${unused.length} of ${files.length} media file(s) unused - ${size} to free`);
+    if (failed.length > 0) {
+      console.log(`${failed.length} item file(s) could not be read - their media may be listed`);
+    }
+    return;
+  }
+
+  // Delete everything together, rolled back if one of them fails
+  const changeset = backend.changeset();
+  for (const file of unused) changeset.deleteFile(file.path, file.sha);
+  try {
+    await changeset.commit(`cms: Prune ${unused.length} unused media files`);
+  } catch (err) {
+    console.error(`\nError deleting files: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
+  console.log(`\n🧹 Deleted ${unused.length} unused media file(s), ${size} freed`);
+}
@@ -1,16 +1,14 @@
 import { readdir, readFile, writeFile } from "node:fs/promises";
 import { join, resolve } from "node:path";
 import { existsSync } from "node:fs";
+import type { PlasticineConfig } from "@plasticine/core";
+import { loadConfig } from "../load-config.ts";
 
 interface MigrateOptions {
   config: string;
   content: string;
   dryRun?: boolean;
-}
-
-interface VersionedConfig {
-  getCollections(): string[];
-  parseCollection(name: string, data: unknown): unknown;
+  to?: string;
 }
 
 export async function migrate(options: MigrateOptions) {
@@ -20,19 +18,20 @@ export async function migrate(options: MigrateOptions) {
   console.log(`Loading config from: ${configPath}`);
   console.log(`Content directory: ${contentPath}`);
   console.log(`Dry run: ${options.dryRun ? "yes" : "no"}`);
+  console.log(`Target version: ${options.to ?? "latest"}`);
   console.log("");
 
-  // Dynamically import the config
-  let config: VersionedConfig;
+  const to = options.to === undefined ? undefined : Number(options.to);
+  if (to !== undefined && (!Number.isInteger(to) || to < 1)) {
+    console.error(`Error: --to must be a version number (1 or higher), got "${options.to}"`);
+    process.exit(1);
+  }
+
+  let config: PlasticineConfig;
   try {
-    const module = await import(configPath);
-    config = module.default || module.config;
-    if (!config || typeof config.getCollections !== "function") {
-      console.error("Error: Invalid config - expected VersionedConfig from defineConfig()");
-      process.exit(1);
-    }
+    config = await loadConfig(configPath);
   } catch (err) {
-    console.error(`Error loading config: ${err}`);
+    console.error(`Error loading config: ${err instanceof Error ? err.message : err}`);
     process.exit(1);
   }
 
@@ -42,43 +41,66 @@ export async function migrate(options: MigrateOptions) {
 
   // Process each collection
   for (const collectionName of config.getCollections()) {
-    const collectionPath = join(contentPath, collectionName);
-
-    console.log(`\n📁 Collection: ${collectionName}`);
-
-    if (!existsSync(collectionPath)) {
-      console.log(`   Directory doesn't exist, skipping`);
-      continue;
-    }
+    const format = config.getFormat(collectionName);
+    // Collections with fewer versions stay at their latest
+    const target = to === undefined ? undefined : Math.min(to, config.getVersion(collectionName));
+    let contentFiles: string[];
+
+    if (config.isSingleton(collectionName)) {
+      // Singletons are a single fixed file
+      const file = config.getItemFile(collectionName, collectionName);
+      console.log(`\n📄 Singleton: ${collectionName}`);
+
+      if (!existsSync(join(contentPath, file))) {
+        console.log(`   ${file} doesn't exist, skipping`);
+        continue;
+      }
+      contentFiles = [file];
+    } else {
+      const collectionPath = join(contentPath, collectionName);
+      console.log(`\n📁 Collection: ${collectionName}`);
+
+      if (!existsSync(collectionPath)) {
+        console.log(`   Directory doesn't exist, skipping`);
+        continue;
+      }
 
-    // Read all JSON files in the collection
-    const files = await readdir(collectionPath);
-    const jsonFiles = files.filter((f) => f.endsWith(".json"));
+      // Read all files in the collection's format
+      // Nested collections keep items in subfolders
+      const files = await readdir(collectionPath, { recursive: config.isNested(collectionName) });
+      contentFiles = files
+        .filter((f) => f.endsWith(format.extension))
+        .map((f) => join(collectionName, f));
 
-    if (jsonFiles.length === 0) {
-      console.log(`   No JSON files found`);
-      continue;
+      if (contentFiles.length === 0) {
+        console.log(`   No ${format.extension} files found`);
+        continue;
+      }
     }
 
-    for (const filename of jsonFiles) {
-      const filePath = join(collectionPath, filename);
+    for (const filename of contentFiles) {
+      const filePath = join(contentPath, filename);
       totalFiles++;
 
       try {
         // Read original content
         const content = await readFile(filePath, "utf-8");
-        const original = JSON.parse(content);
+        const original = format.parse(content);
 
-        // Parse through versioned config (auto-migrates)
-        const migrated = config.parseCollection(collectionName, original);
+        // Parse through versioned config (auto-migrates, up or down to the target version)
+        const migrated = (
+          target === undefined
+            ? config.parseCollection(collectionName, original)
+            : config.parseCollectionAs(collectionName, original, target)
+        ) as Record<string, unknown>;
 
         // Check if data changed
-        const originalStr = JSON.stringify(original, null, 2);
-        const migratedStr = JSON.stringify(migrated, null, 2);
+        const originalStr = format.stringify(original);
+        const migratedStr = format.stringify(config.stampVersion(collectionName, migrated, target));
 
         if (originalStr !== migratedStr) {
           migratedFiles++;
-          console.log(`   ✨ ${filename} - migrated`);
+          console.log(`   ✨ ${filename} - migrated${target === undefined ? "" : ` to v${target}`}`);
 
           if (!options.dryRun) {
             await writeFile(filePath, migratedStr, "utf-8");
@@ -104,4 +126,6 @@ export async function migrate(options: MigrateOptions) {
     console.log("\n⚠️  Dry run - no files were actually modified");
     console.log("   Run without --dry-run to apply changes");
   }
+
+  if (errorFiles > 0) process.exit(1);
 }
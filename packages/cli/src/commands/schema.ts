@@ -0,0 +1,112 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { join, relative, resolve } from "node:path";
+import type { PlasticineConfig } from "@plasticine/core";
+import { getCollectionJsonSchema } from "@plasticine/core/config";
+import { loadConfig } from "../load-config.ts";
+
+interface SchemaOptions {
+  config: string;
+  content: string;
+  out: string;
+  vscode: boolean;
+}
+
+interface SchemaAssociation {
+  fileMatch: string[];
+  url: string;
+}
+
+/**
+ * Path relative to the working directory, with forward slashes
+ */
+const toRelative = (path: string) => relative(process.cwd(), path).split("\\").join("/") || ".";
+
+/**
+ * Glob matching the item files of a collection
+ */
+function fileMatch(config: PlasticineConfig, contentPath: string, collection: string) {
+  const content = toRelative(contentPath);
+  if (config.isSingleton(collection)) {
+    return `${content}/${config.getItemFile(collection, collection)}`;
+  }
+  const files = config.isNested(collection) ? "**/*.json" : "*.json";
+  return `${content}/${collection}/${files}`;
+}
+
+/**
+ * Point VS Code at the schemas, replacing associations written before
+ */
+async function updateVscodeSettings(associations: SchemaAssociation[], outPath: string) {
+  const settingsPath = resolve(".vscode/settings.json");
+  let settings: Record<string, unknown> = {};
+
+  if (existsSync(settingsPath)) {
+    try {
+      settings = JSON.parse(await readFile(settingsPath, "utf-8"));
+    } catch {
+      console.error(`\nCan't update ${toRelative(settingsPath)} - it isn't plain JSON (comments?)`);
+      console.error("Add these to json.schemas yourself:");
+      console.error(JSON.stringify(associations, null, 2));
+      process.exit(1);
+    }
+  }
+
+  const prefix = `./${toRelative(outPath)}/`;
+  const existing = Array.isArray(settings["json.schemas"])
+    ? (settings["json.schemas"] as SchemaAssociation[])
+    : [];
+  settings["json.schemas"] = [
+    ...existing.filter((entry) => !entry.url?.startsWith(prefix)),
+    ...associations,
+  ];
+
+  await mkdir(resolve(".vscode"), { recursive: true });
+  await writeFile(settingsPath, `${JSON.stringify(settings, null, 2)}\n`, "utf-8");
+  console.log(`   ✓ ${toRelative(settingsPath)}`);
+}
+
+export async function schema(options: SchemaOptions) {
+  const configPath = resolve(options.config);
+  const contentPath = resolve(options.content);
+  const outPath = resolve(options.out);
+
+  console.log(`Loading config from: ${configPath}`);
+  console.log(`Content directory: ${contentPath}`);
+  console.log("");
+
+  let config: PlasticineConfig;
+  try {
+    config = await loadConfig(configPath);
+  } catch (err) {
+    console.error(`Error loading config: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
+  await mkdir(outPath, { recursive: true });
+  const associations: SchemaAssociation[] = [];
+
+  for (const collection of config.getCollections()) {
+    // Only JSON files get editor validation
+    if (config.getFormat(collection).extension !== ".json") {
+      console.log(`   - ${collection} - skipped, not stored as JSON`);
+      continue;
+    }
+
+    const file = join(outPath, `${collection}.schema.json`);
+    const jsonSchema = getCollectionJsonSchema(config, collection);
+    await writeFile(file, `${JSON.stringify(jsonSchema, null, 2)}\n`, "utf-8");
+    console.log(`   ✓ ${toRelative(file)}`);
+
+    associations.push({
+      fileMatch: [fileMatch(config, contentPath, collection)],
+      url: `./${toRelative(file)}`,
+    });
+  }
+
+  if (options.vscode) {
+    await updateVscodeSettings(associations, outPath);
+  }
+
+  console.log(`\n📐 Wrote ${associations.length} schema(s)`);
+}
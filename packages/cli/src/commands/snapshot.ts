@@ -0,0 +1,78 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, resolve } from "node:path";
+import type { PlasticineConfig } from "@plasticine/core";
+import { createFilesystemBackend } from "@plasticine/core/filesystem";
+import { createSnapshot } from "@plasticine/core/snapshot";
+import { loadConfig } from "../load-config.ts";
+
+interface SnapshotOptions {
+  config: string;
+  content: string;
+  out: string;
+  format?: string;
+}
+
+/**
+ * Render a snapshot as a TypeScript module
+ */
+function toModule(json: string) {
+  return [
+    "// Generated by `plasticine snapshot` - do not edit",
+    'import type { ContentSnapshot } from "@plasticine/core";',
+    "",
+    `const snapshot: ContentSnapshot = ${json};`,
+    "",
+    "export default snapshot;",
+    "",
+  ].join("\n");
+}
+
+export async function snapshot(options: SnapshotOptions) {
+  const configPath = resolve(options.config);
+  const contentPath = resolve(options.content);
+  const outPath = resolve(options.out);
+  const format = options.format || (extname(outPath) === ".ts" ? "ts" : "json");
+
+  if (format !== "json" && format !== "ts") {
+    console.error(`Error: Unknown format "${format}" - expected json or ts`);
+    process.exit(1);
+  }
+
+  console.log(`Loading config from: ${configPath}`);
+  console.log(`Content directory: ${contentPath}`);
+  console.log("");
+
+  let config: PlasticineConfig;
+  try {
+    config = await loadConfig(configPath);
+  } catch (err) {
+    console.error(`Error loading config: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
+  const backend = createFilesystemBackend({
+    root: dirname(contentPath),
+    contentPath: basename(contentPath),
+  }).createBackend(undefined, config);
+
+  const { snapshot, errors } = await createSnapshot(config, backend.content);
+
+  for (const [collection, items] of Object.entries(snapshot.collections)) {
+    console.log(`   ✓ ${collection} - ${Object.keys(items).length} item(s)`);
+  }
+
+  if (errors.length > 0) {
+    console.log("");
+    for (const error of errors) {
+      console.log(`   ✗ ${error.file} - ${error.message}`);
+    }
+    console.error(`\n${errors.length} item(s) failed validation, no snapshot written`);
+    process.exit(1);
+  }
+
+  const json = JSON.stringify(snapshot, null, 2);
+  await mkdir(dirname(outPath), { recursive: true });
+  await writeFile(outPath, format === "ts" ? toModule(json) : `${json}\n`, "utf-8");
+
+  console.log(`\n📦 Snapshot written to ${outPath}`);
+}
@@ -0,0 +1,49 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import type { PlasticineConfig } from "@plasticine/core";
+import { generateJsonSchema, generateTypes } from "@plasticine/core/config";
+import { loadConfig } from "../load-config.ts";
+
+interface TypegenOptions {
+  config: string;
+  out: string;
+  jsonSchema?: string;
+}
+
+async function write(path: string, content: string) {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, content, "utf-8");
+  console.log(`   ✓ ${path}`);
+}
+
+export async function typegen(options: TypegenOptions) {
+  const configPath = resolve(options.config);
+
+  console.log(`Loading config from: ${configPath}`);
+  console.log("");
+
+  let config: PlasticineConfig;
+  try {
+    config = await loadConfig(configPath);
+  } catch (err) {
+    console.error(`Error loading config: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
+  let types: string;
+  try {
+    types = generateTypes(config);
+  } catch (err) {
+    console.error(`Error generating types: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
+  await write(resolve(options.out), types);
+
+  if (options.jsonSchema) {
+    const schema = generateJsonSchema(config);
+    await write(resolve(options.jsonSchema), `${JSON.stringify(schema, null, 2)}\n`);
+  }
+
+  console.log(`\n🧬 Generated types for ${config.getCollections().length} collection(s)`);
+}
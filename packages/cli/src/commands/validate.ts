@@ -0,0 +1,137 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join, relative, resolve } from "node:path";
+import { existsSync } from "node:fs";
+import type { PlasticineConfig, RawContentItem, ValidationIssue } from "@plasticine/core";
+import { validateItems } from "@plasticine/core/config";
+import { loadConfig } from "../load-config.ts";
+
+interface ValidateOptions {
+  config: string;
+  content: string;
+  format: string;
+}
+
+const FORMATS = ["text", "json", "github"];
+
+/**
+ * Read every item file of a collection, recording files that can't be parsed
+ */
+async function readCollection(
+  config: PlasticineConfig,
+  contentPath: string,
+  collection: string,
+  issues: ValidationIssue[],
+): Promise<RawContentItem[]> {
+  const format = config.getFormat(collection);
+  let files: Array<{ id: string; file: string }>;
+
+  if (config.isSingleton(collection)) {
+    const file = config.getItemFile(collection, collection);
+    files = existsSync(join(contentPath, file)) ? [{ id: collection, file }] : [];
+  } else {
+    const folder = join(contentPath, collection);
+    if (!existsSync(folder)) return [];
+
+    // Nested collections keep items in subfolders
+    const names = await readdir(folder, { recursive: config.isNested(collection) });
+    files = names
+      .filter((name) => name.endsWith(format.extension))
+      .map((name) => {
+        const id = name.slice(0, -format.extension.length).split("\\").join("/");
+        return { id, file: join(collection, name).split("\\").join("/") };
+      });
+  }
+
+  const items: RawContentItem[] = [];
+  for (const { id, file } of files) {
+    try {
+      const data = format.parse(await readFile(join(contentPath, file), "utf-8"));
+      items.push({ collection, id, file, data });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      issues.push({ kind: "parse", collection, id, file, path: "$", message });
+    }
+  }
+  return items;
+}
+
+/**
+ * Escape a value for a GitHub Actions workflow command
+ */
+function escapeGithub(value: string, property = false) {
+  const escaped = value.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+  return property ? escaped.replace(/:/g, "%3A").replace(/,/g, "%2C") : escaped;
+}
+
+function printText(issues: ValidationIssue[], itemCount: number) {
+  const byFile = Map.groupBy(issues, (issue) => issue.file);
+
+  for (const [file, fileIssues] of byFile) {
+    console.log(`\n✗ ${file}`);
+    for (const issue of fileIssues) {
+      console.log(`   ${issue.path}  ${issue.message} (${issue.kind})`);
+    }
+  }
+
+  console.log("\n" + "=".repeat(50));
+  console.log(`Items: ${itemCount}`);
+  console.log(`Issues: ${issues.length} in ${byFile.size} file(s)`);
+  if (issues.length === 0) console.log("\n✓ All content is valid");
+}
+
+function printGithub(issues: ValidationIssue[], contentPath: string) {
+  for (const issue of issues) {
+    // Annotations need paths relative to the repository root, where workflows run
+    const file = relative(process.cwd(), join(contentPath, issue.file)).split("\\").join("/");
+    const title = `plasticine ${issue.kind} error`;
+    console.log(
+      `::error file=${escapeGithub(file, true)},title=${escapeGithub(title, true)}::` +
+        escapeGithub(`${issue.path}: ${issue.message}`),
+    );
+  }
+}
+
+export async function validate(options: ValidateOptions) {
+  const configPath = resolve(options.config);
+  const contentPath = resolve(options.content);
+
+  if (!FORMATS.includes(options.format)) {
+    console.error(`Error: Unknown format "${options.format}" - expected ${FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+
+  if (options.format === "text") {
+    console.log(`Loading config from: ${configPath}`);
+    console.log(`Content directory: ${contentPath}`);
+  }
+
+  let config: PlasticineConfig;
+  try {
+    config = await loadConfig(configPath);
+  } catch (err) {
+    console.error(`Error loading config: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const items: RawContentItem[] = [];
+  for (const collection of config.getCollections()) {
+    items.push(...(await readCollection(config, contentPath, collection, issues)));
+  }
+  issues.push(...validateItems(config, items));
+
+  const itemCount = items.length + issues.filter((issue) => issue.kind === "parse").length;
+
+  switch (options.format) {
+    case "json":
+      console.log(JSON.stringify({ valid: issues.length === 0, items: itemCount, issues }, null, 2));
+      break;
+    case "github":
+      printGithub(issues, contentPath);
+      break;
+    default:
+      printText(issues, itemCount);
+  }
+
+  if (issues.length > 0) process.exit(1);
+}
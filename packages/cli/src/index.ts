@@ -1,6 +1,12 @@
 #!/usr/bin/env node --experimental-strip-types
 import { Command } from "commander";
+import { dev } from "./commands/dev.ts";
+import { prune } from "./commands/media.ts";
 import { migrate } from "./commands/migrate.ts";
+import { schema } from "./commands/schema.ts";
+import { snapshot } from "./commands/snapshot.ts";
+import { typegen } from "./commands/typegen.ts";
+import { validate } from "./commands/validate.ts";
 
 const program = new Command();
 
@@ -15,6 +21,65 @@ program
   .option("-c, --config <path>", "Path to plasticine config", "./plasticine.config.ts")
   .option("-d, --content <path>", "Path to content directory", "./content")
   .option("--dry-run", "Show what would be migrated without making changes")
+  .option("--to <version>", "Migrate up or down to this schema version (default: latest)")
   .action(migrate);
 
+program
+  .command("validate")
+  .description("Validate content against the schema, check ids and references (exits 1 on errors)")
+  .option("-c, --config <path>", "Path to plasticine config", "./plasticine.config.ts")
+  .option("-d, --content <path>", "Path to content directory", "./content")
+  .option("-f, --format <format>", "Output format: text, json or github", "text")
+  .action(validate);
+
+program
+  .command("snapshot")
+  .description("Bundle all content into one migrated, validated snapshot (for createStaticClient)")
+  .option("-c, --config <path>", "Path to plasticine config", "./plasticine.config.ts")
+  .option("-d, --content <path>", "Path to content directory", "./content")
+  .option("-o, --out <path>", "Output file (.json or .ts)", "./content.snapshot.json")
+  .option("--format <format>", "Output format: json or ts (default: from the output extension)")
+  .action(snapshot);
+
+program
+  .command("typegen")
+  .description("Generate standalone TypeScript types for every collection")
+  .option("-c, --config <path>", "Path to plasticine config", "./plasticine.config.ts")
+  .option("-o, --out <path>", "Output .d.ts file", "./plasticine.d.ts")
+  .option("--json-schema <path>", "Also write a JSON Schema of all collections")
+  .action(typegen);
+
+program
+  .command("schema")
+  .description("Write JSON Schemas of collections and associate them with content files in VS Code")
+  .option("-c, --config <path>", "Path to plasticine config", "./plasticine.config.ts")
+  .option("-d, --content <path>", "Path to content directory", "./content")
+  .option("-o, --out <path>", "Output directory for schemas", "./.plasticine/schemas")
+  .option("--no-vscode", "Don't update .vscode/settings.json")
+  .action(schema);
+
+program
+  .command("dev")
+  .description("Serve the local working copy to the CMS (use with createLocalBackend)")
+  .option("-c, --config <path>", "Path to plasticine config", "./plasticine.config.ts")
+  .option("-r, --root <path>", "Root of the working copy", ".")
+  .option("-d, --content <path>", "Path to content directory", "./content")
+  .option("-p, --port <port>", "Port to listen on", "4321")
+  .option("--host <host>", "Interface to listen on (0.0.0.0 exposes it to the network)", "127.0.0.1")
+  .option("--origin <origins>", "Comma-separated origins of the CMS (default: any localhost page)")
+  .option("--schema <path>", "Schema file the CMS edits (its schemaPath)", "plasticine/config.ts")
+  .option("--media-url <url>", "Base URL written into uploaded media references")
+  .action(dev);
+
+const media = program.command("media").description("Manage uploaded media files");
+
+media
+  .command("prune")
+  .description("Delete media files no content references (fields, rich text and markdown)")
+  .option("-c, --config <path>", "Path to plasticine config", "./plasticine.config.ts")
+  .option("-d, --content <path>", "Path to content directory", "./content")
+  .option("--dry-run", "List unused files without deleting them")
+  .option("--force", "Delete even when some item files can't be read")
+  .action(prune);
+
 program.parse();
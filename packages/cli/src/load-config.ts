@@ -0,0 +1,14 @@
+import { resolve } from "node:path";
+import type { PlasticineConfig } from "@plasticine/core";
+
+/**
+ * Import a plasticine config (the default or `config` export of the module)
+ */
+export async function loadConfig(path: string): Promise<PlasticineConfig> {
+  const module = await import(resolve(path));
+  const config = module.default || module.config;
+  if (!config || typeof config.getCollections !== "function") {
+    throw new Error("Invalid config - expected PlasticineConfig from defineConfig()");
+  }
+  return config;
+}
@@ -0,0 +1,35 @@
+import type { AuthProvider, AuthResult, User } from './types'
+
+const LOCAL_USER: User = {
+  login: 'local',
+  avatar_url: '',
+  name: 'Local',
+}
+
+/**
+ * Create a local auth provider - no credentials, for use with createLocalBackend()
+ */
+export function createLocalAuth(): AuthProvider {
+  return {
+    async checkAuth(): Promise<AuthResult | null> {
+      return { user: LOCAL_USER }
+    },
+
+    async logout(): Promise<void> {},
+
+    LoginScreen(props: { onSuccess: (result: AuthResult) => void }) {
+      return (
+        <div class="auth">
+          <div class="auth-container">
+            <h1 class="auth-title">Plasticine CMS</h1>
+            <p class="auth-subtitle">Editing the local working copy</p>
+
+            <button class="btn btn-primary" onClick={() => props.onSuccess({ user: LOCAL_USER })}>
+              Continue
+            </button>
+          </div>
+        </div>
+      )
+    },
+  }
+}
@@ -0,0 +1,126 @@
+import type { Change, Changeset, ChangesetResult, UploadOptions } from './types.ts'
+
+/**
+ * Generate a unique filename for an upload
+ */
+export function uploadFilename(file: File): string {
+  const safeName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_')
+  return `${Date.now()}-${safeName}`
+}
+
+/**
+ * Send a request with upload progress - `fetch` can't report it, so this goes through XHR
+ */
+export function sendWithProgress(
+  url: string,
+  init: { method: string; headers?: Record<string, string>; body: XMLHttpRequestBodyInit },
+  options: UploadOptions = {},
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const { signal, onProgress } = options
+    if (signal?.aborted) return reject(new DOMException('Upload cancelled', 'AbortError'))
+
+    const xhr = new XMLHttpRequest()
+    xhr.open(init.method, url)
+    for (const [name, value] of Object.entries(init.headers ?? {})) {
+      xhr.setRequestHeader(name, value)
+    }
+
+    const abort = () => xhr.abort()
+    signal?.addEventListener('abort', abort)
+    const done = () => signal?.removeEventListener('abort', abort)
+
+    xhr.upload.onprogress = e => {
+      if (e.lengthComputable) onProgress?.(e.loaded, e.total)
+    }
+    xhr.onload = () => {
+      done()
+      resolve(new Response(xhr.responseText, { status: xhr.status, statusText: xhr.statusText }))
+    }
+    xhr.onerror = () => {
+      done()
+      reject(new Error('Network error'))
+    }
+    xhr.onabort = () => {
+      done()
+      reject(new DOMException('Upload cancelled', 'AbortError'))
+    }
+    xhr.send(init.body)
+  })
+}
+
+/**
+ * Create a changeset that queues changes and hands them to `commit` in one go.
+ * Backends provide how upload paths map to urls and how the changes are applied.
+ */
+export function createChangeset(options: {
+  /** Resolve the repo path and public url of an upload named `name` */
+  resolveUpload(name: string, folder?: string): { path: string; url: string }
+  /** Public url of a media file at a repo path */
+  mediaUrl(path: string): string
+  commit(changes: Change[], message: string): Promise<ChangesetResult>
+}): Changeset {
+  const changes: Change[] = []
+  let committed = false
+
+  return {
+    changes,
+
+    saveItem(collection, id, data, sha) {
+      changes.push({ type: 'saveItem', collection, id, data, sha })
+    },
+
+    deleteItem(collection, id, sha) {
+      changes.push({ type: 'deleteItem', collection, id, sha })
+    },
+
+    uploadFile(file, folder, name) {
+      const { path, url } = options.resolveUpload(name ?? uploadFilename(file), folder)
+      changes.push({ type: 'uploadFile', file, path, url })
+      return { path, url }
+    },
+
+    deleteFile(path, sha) {
+      changes.push({ type: 'deleteFile', path, sha })
+    },
+
+    moveFile(from, to, sha) {
+      const url = options.mediaUrl(to)
+      changes.push({ type: 'moveFile', from, path: to, url, sha })
+      return { path: to, url }
+    },
+
+    async commit(message) {
+      if (committed) throw new Error('Changeset was already committed')
+      committed = true
+      if (changes.length === 0) return { items: [], files: [] }
+      return options.commit(changes, message)
+    },
+  }
+}
+
+/**
+ * Build a changeset result from the applied changes, given a way to look up new shas
+ */
+export function changesetResult(
+  changes: Change[],
+  shaOf: (change: Change) => string | undefined,
+): ChangesetResult {
+  const result: ChangesetResult = { items: [], files: [] }
+
+  for (const change of changes) {
+    if (change.type === 'saveItem') {
+      result.items.push({ collection: change.collection, id: change.id, sha: shaOf(change) })
+    } else if (change.type === 'uploadFile') {
+      result.files.push({
+        name: change.path.split('/').pop()!,
+        path: change.path,
+        sha: shaOf(change),
+        size: change.file.size,
+        url: change.url,
+      })
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, test } from 'node:test'
+import { createFilesystemBackend, type FilesystemBackend } from './filesystem.ts'
+
+let root: string
+let backend: FilesystemBackend
+
+const read = (path: string) =>
+  readFile(join(root, path), 'utf-8').catch(() => undefined as string | undefined)
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'plasticine-'))
+  backend = createFilesystemBackend({ root, mediaUrl: '/media' }).createBackend()
+  await backend.content.saveItem('posts', 'a', { title: 'A' })
+  await backend.content.saveItem('posts', 'b', { title: 'B' })
+})
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true })
+})
+
+describe('filesystem changesets', () => {
+  test('applies every change and reports new shas', async () => {
+    const changeset = backend.changeset()
+    changeset.saveItem('posts', 'a', { title: 'A2' })
+    changeset.deleteItem('posts', 'b')
+    const upload = changeset.uploadFile(new File(['image'], 'cat photo.png'), 'pets')
+    const result = await changeset.commit('Update posts')
+
+    assert.match(upload.path, /^content\/uploads\/pets\/\d+-cat_photo\.png$/)
+    assert.equal(upload.url, `/media/${upload.path}`)
+    assert.equal(JSON.parse((await read('content/posts/a.json'))!).title, 'A2')
+    assert.equal(await read('content/posts/b.json'), undefined)
+    assert.equal(await read(upload.path), 'image')
+
+    const a = await backend.content.getItem('posts', 'a')
+    assert.deepEqual(result.items, [{ collection: 'posts', id: 'a', sha: a.sha }])
+    assert.equal(result.files[0].path, upload.path)
+    assert.equal(result.files[0].size, 5)
+  })
+
+  test('restores every touched file when a change fails', async () => {
+    const before = await read('content/posts/a.json')
+    const changeset = backend.changeset()
+    changeset.saveItem('posts', 'a', { title: 'A2' })
+    changeset.saveItem('posts', 'c', { title: 'C' })
+    changeset.deleteItem('posts', 'b')
+    changeset.moveFile('content/uploads/missing.png', 'content/uploads/moved.png')
+
+    await assert.rejects(changeset.commit('Broken'), { code: 'ENOENT' })
+    assert.equal(await read('content/posts/a.json'), before)
+    assert.equal(JSON.parse((await read('content/posts/b.json'))!).title, 'B')
+    assert.equal(await read('content/posts/c.json'), undefined)
+    assert.equal(await read('content/uploads/moved.png'), undefined)
+  })
+
+  test('writes nothing when a sha is stale', async () => {
+    const a = await backend.content.getItem('posts', 'a')
+    await backend.content.saveItem('posts', 'a', { title: 'Changed elsewhere' })
+
+    const changeset = backend.changeset()
+    changeset.saveItem('posts', 'b', { title: 'B2' })
+    changeset.saveItem('posts', 'a', { title: 'A2' }, a.sha)
+
+    await assert.rejects(changeset.commit('Stale'), /Conflict: content\/posts\/a\.json/)
+    assert.equal(JSON.parse((await read('content/posts/b.json'))!).title, 'B')
+  })
+
+  test('keeps the name an upload was given by an earlier changeset', async () => {
+    const file = new File(['image'], 'cat.png')
+    const staged = backend.changeset().uploadFile(file, 'pets')
+
+    const changeset = backend.changeset()
+    assert.deepEqual(changeset.uploadFile(file, 'pets', staged.path.split('/').pop()), staged)
+    changeset.saveItem('posts', 'a', { title: 'A', cover: staged.url })
+    const result = await changeset.commit('Save with upload')
+
+    assert.equal(await read(staged.path), 'image')
+    assert.deepEqual(
+      result.files.map(file => file.url),
+      [staged.url],
+    )
+  })
+
+  test('refuses to commit twice', async () => {
+    const changeset = backend.changeset()
+    await changeset.commit('Empty')
+    await assert.rejects(changeset.commit('Again'), /already committed/)
+  })
+})
+
+describe('filesystem content', () => {
+  test('reports item files that fail to load and lists the rest', async () => {
+    await writeFile(join(root, 'content/posts/broken.json'), '{ broken')
+    const failed: string[] = []
+    const reporting = createFilesystemBackend({
+      root,
+      onLoadError: file => failed.push(file),
+    }).createBackend()
+
+    const items = await reporting.content.listCollection('posts')
+    assert.deepEqual(items.map(item => item.id).sort(), ['a', 'b'])
+    assert.deepEqual(failed, ['content/posts/broken.json'])
+  })
+
+  test('deletes only what is unchanged since it was loaded', async () => {
+    const a = await backend.content.getItem('posts', 'a')
+    await backend.content.saveItem('posts', 'a', { title: 'Changed elsewhere' })
+    await assert.rejects(backend.content.deleteItem('posts', 'a', a.sha), /Conflict/)
+    assert.notEqual(await read('content/posts/a.json'), undefined)
+
+    const b = await backend.content.getItem('posts', 'b')
+    await backend.content.deleteItem('posts', 'b', b.sha)
+    assert.equal(await read('content/posts/b.json'), undefined)
+
+    const upload = await backend.media.uploadFile(new File(['image'], 'a.png'))
+    await assert.rejects(backend.media.deleteFile(upload.path, a.sha), /Conflict/)
+    await backend.media.deleteFile(upload.path, upload.sha)
+    assert.equal(await read(upload.path), undefined)
+  })
+})
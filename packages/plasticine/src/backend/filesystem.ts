@@ -0,0 +1,308 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { dirname, resolve, sep } from 'node:path'
+import type { PlasticineConfig } from '../config/define-config.ts'
+import { jsonFormat, type ContentFormat } from '../config/formats.ts'
+import { changesetResult, createChangeset, uploadFilename } from './changeset.ts'
+import type {
+  Backend,
+  Change,
+  ChangesetResult,
+  ConfigBackend,
+  ContentBackend,
+  ContentItem,
+  MediaBackend,
+  MediaFile,
+  UploadOptions,
+} from './types.ts'
+
+export interface FilesystemConfig {
+  /** Absolute path of the working copy (paths are resolved relative to it) */
+  root: string
+  /** Path to content directory, relative to root (default: 'content') */
+  contentPath?: string
+  /** Base URL media files are served from (default: '' -> `/<path>`) */
+  mediaUrl?: string
+  /** Called for item files listCollection can't load and skips (default: logs the error) */
+  onLoadError?: (file: string, error: unknown) => void
+}
+
+export interface FilesystemBackend extends Backend {
+  /** Apply already-resolved changes (used by the dev server to commit remote changesets) */
+  applyChanges(changes: Change[]): Promise<ChangesetResult>
+}
+
+/**
+ * Compute the git blob sha of a buffer, so shas match what the GitHub backend reports
+ */
+function blobSha(buffer: Buffer): string {
+  return createHash('sha1').update(`blob ${buffer.length}\0`).update(buffer).digest('hex')
+}
+
+/**
+ * Filesystem backend factory - reads and writes a local working copy.
+ * Runs in Node only: use it from the CLI dev server or build tooling.
+ */
+export function createFilesystemBackend(config: FilesystemConfig) {
+  function create(plasticine?: PlasticineConfig<any>): FilesystemBackend {
+    const root = resolve(config.root)
+    const contentPath = config.contentPath || 'content'
+    const mediaUrl = (config.mediaUrl || '').replace(/\/$/, '')
+    const onLoadError =
+      config.onLoadError ?? ((file, error) => console.error(`Failed to load ${file}:`, error))
+
+    /**
+     * Resolve a path relative to root, refusing anything that escapes it
+     */
+    const resolvePath = (path: string): string => {
+      const absolute = resolve(root, path)
+      if (absolute !== root && !absolute.startsWith(root + sep)) {
+        throw new Error(`Path outside of root: ${path}`)
+      }
+      return absolute
+    }
+
+    const readWithSha = async (path: string): Promise<{ buffer: Buffer; sha: string }> => {
+      const buffer = await readFile(resolvePath(path))
+      return { buffer, sha: blobSha(buffer) }
+    }
+
+    /**
+     * Fail when the sha doesn't match what's on disk (optimistic locking)
+     */
+    const checkSha = async (path: string, sha?: string) => {
+      if (!sha) return
+      const current = await readWithSha(path).catch(() => null)
+      if (current && current.sha !== sha) {
+        throw new Error(`Conflict: ${path} was modified since it was loaded`)
+      }
+    }
+
+    /**
+     * Write a file, failing when the sha doesn't match what's on disk
+     */
+    const writeWithSha = async (
+      path: string,
+      content: string | Buffer,
+      sha?: string,
+    ): Promise<{ sha: string }> => {
+      const absolute = resolvePath(path)
+      await checkSha(path, sha)
+      const buffer = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content
+      await mkdir(dirname(absolute), { recursive: true })
+      await writeFile(absolute, buffer)
+      return { sha: blobSha(buffer) }
+    }
+
+    /**
+     * List files in a folder (relative to root), optionally recursing into subdirectories
+     */
+    const listFolder = async (folderPath: string, recursive = false): Promise<string[]> => {
+      const entries = await readdir(resolvePath(folderPath), { withFileTypes: true }).catch(
+        (error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') return []
+          throw error
+        },
+      )
+
+      const files: string[] = []
+      for (const entry of entries) {
+        const entryPath = `${folderPath}/${entry.name}`
+        if (entry.isFile()) {
+          files.push(entryPath)
+        } else if (recursive && entry.isDirectory()) {
+          files.push(...(await listFolder(entryPath, true)))
+        }
+      }
+      return files
+    }
+
+    const formatOf = (collection: string): ContentFormat =>
+      plasticine?.getFormat(collection) ?? jsonFormat()
+    const itemPath = (collection: string, id: string) =>
+      `${contentPath}/${plasticine?.getItemFile(collection, id) ?? `${collection}/${id}.json`}`
+
+    const resolveUpload = (name: string, folder?: string) => {
+      const uploadPath = folder ? `uploads/${folder}` : 'uploads'
+      const path = `${contentPath}/${uploadPath}/${name}`
+      return { path, url: `${mediaUrl}/${path}` }
+    }
+
+    const mediaUrlOf = (path: string) => `${mediaUrl}/${path}`
+
+    const content: ContentBackend = {
+      async listCollection(collection: string): Promise<ContentItem[]> {
+        // A singleton is its one file, if it was saved before
+        if (plasticine?.isSingleton(collection)) {
+          return content.getItem(collection, collection).then(
+            item => [item],
+            (error: NodeJS.ErrnoException) => {
+              if (error.code === 'ENOENT') return []
+              throw error
+            },
+          )
+        }
+
+        // Items live in subfolders when the collection has a nested path template
+        const folder = `${contentPath}/${collection}`
+        const files = await listFolder(folder, !!plasticine?.isNested(collection))
+        const { extension } = formatOf(collection)
+        const items: ContentItem[] = []
+
+        for (const file of files.filter(f => f.endsWith(extension))) {
+          const id = file.slice(folder.length + 1, -extension.length)
+          try {
+            items.push(await content.getItem(collection, id))
+          } catch (e) {
+            onLoadError(file, e)
+          }
+        }
+
+        return items
+      },
+
+      async getItem(collection: string, id: string): Promise<ContentItem> {
+        const { buffer, sha } = await readWithSha(itemPath(collection, id))
+        return { id, sha, data: formatOf(collection).parse(buffer.toString('utf-8')) }
+      },
+
+      async saveItem(
+        collection: string,
+        id: string,
+        data: Record<string, unknown>,
+        sha?: string,
+      ): Promise<{ sha?: string }> {
+        return writeWithSha(itemPath(collection, id), formatOf(collection).stringify(data), sha)
+      },
+
+      async deleteItem(collection: string, id: string, sha?: string): Promise<void> {
+        const path = itemPath(collection, id)
+        await checkSha(path, sha)
+        await rm(resolvePath(path))
+      },
+    }
+
+    const media: MediaBackend = {
+      async listMedia(): Promise<MediaFile[]> {
+        const files = await listFolder(`${contentPath}/uploads`, true)
+
+        return Promise.all(
+          files.map(async path => {
+            const { buffer, sha } = await readWithSha(path)
+            return {
+              name: path.split('/').pop()!,
+              path,
+              sha,
+              size: buffer.length,
+              url: `${mediaUrl}/${path}`,
+            }
+          }),
+        )
+      },
+
+      async uploadFile(
+        file: File,
+        folder?: string,
+        options?: UploadOptions,
+      ): Promise<{ url: string; path: string; sha?: string }> {
+        options?.signal?.throwIfAborted()
+        const { path, url } = resolveUpload(uploadFilename(file), folder)
+        const { sha } = await writeWithSha(path, Buffer.from(await file.arrayBuffer()))
+        options?.onProgress?.(file.size, file.size)
+        return { url, path, sha }
+      },
+
+      async deleteFile(path: string, sha?: string): Promise<void> {
+        await checkSha(path, sha)
+        await rm(resolvePath(path))
+      },
+    }
+
+    const configBackend: ConfigBackend = {
+      async readFile(path: string) {
+        const { buffer, sha } = await readWithSha(path)
+        return { content: buffer.toString('utf-8'), sha }
+      },
+
+      async writeFile(path: string, content: string, sha?: string) {
+        return writeWithSha(path, content, sha)
+      },
+    }
+
+    /**
+     * Apply changes in order, restoring every touched file if one of them fails
+     */
+    const applyChanges = async (changes: Change[]): Promise<ChangesetResult> => {
+      const pathOf = (change: Change) =>
+        'collection' in change ? itemPath(change.collection, change.id) : change.path
+
+      // Check every sha before touching anything, so a conflict leaves nothing to roll back
+      for (const change of changes) {
+        if (change.type === 'uploadFile') continue
+        await checkSha(change.type === 'moveFile' ? change.from : pathOf(change), change.sha)
+      }
+
+      const originals = new Map<string, Buffer | null>()
+      for (const change of changes) {
+        const paths = change.type === 'moveFile' ? [change.from, change.path] : [pathOf(change)]
+        for (const path of paths) {
+          if (!originals.has(path)) {
+            originals.set(path, await readFile(resolvePath(path)).catch(() => null))
+          }
+        }
+      }
+
+      const shas: Record<string, string> = {}
+      try {
+        for (const change of changes) {
+          const path = pathOf(change)
+          switch (change.type) {
+            case 'saveItem':
+              shas[path] = (
+                await writeWithSha(path, formatOf(change.collection).stringify(change.data))
+              ).sha
+              break
+            case 'uploadFile':
+              shas[path] = (
+                await writeWithSha(path, Buffer.from(await change.file.arrayBuffer()))
+              ).sha
+              break
+            case 'deleteItem':
+            case 'deleteFile':
+              await rm(resolvePath(path), { force: true })
+              break
+            case 'moveFile':
+              shas[path] = (await writeWithSha(path, await readFile(resolvePath(change.from)))).sha
+              await rm(resolvePath(change.from))
+              break
+          }
+        }
+      } catch (error) {
+        for (const [path, original] of originals) {
+          if (original) {
+            await writeWithSha(path, original)
+          } else {
+            await rm(resolvePath(path), { force: true })
+          }
+        }
+        throw error
+      }
+
+      return changesetResult(changes, change => shas[pathOf(change)])
+    }
+
+    const changeset = () =>
+      createChangeset({
+        resolveUpload,
+        mediaUrl: mediaUrlOf,
+        commit: changes => applyChanges(changes),
+      })
+
+    return { content, media, config: configBackend, changeset, applyChanges }
+  }
+
+  return {
+    config,
+    createBackend: (_token?: string, plasticine?: PlasticineConfig<any>) => create(plasticine),
+  }
+}
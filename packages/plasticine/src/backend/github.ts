@@ -1,19 +1,52 @@
+import type { PlasticineConfig } from '../config/define-config'
+import { jsonFormat, type ContentFormat } from '../config/formats'
+import { changesetResult, createChangeset, sendWithProgress, uploadFilename } from './changeset'
 import type {
   Backend,
+  Change,
   ConfigBackend,
   ContentBackend,
   ContentItem,
   MediaBackend,
   MediaFile,
+  UploadOptions,
+  WorkflowBackend,
+  WorkflowEntry,
+  WorkflowStatus,
 } from './types'
 
 const GITHUB_API = 'https://api.github.com'
 
+// Editorial workflow: drafts live on `cms/<collection>/<id>` branches, status is a PR label
+const WORKFLOW_PREFIX = 'cms/'
+const REVIEW_LABEL = 'cms/review'
+const READY_LABEL = 'cms/ready'
+
+/**
+ * Base64-encode a string as UTF-8 (btoa alone only handles Latin-1)
+ */
+function utf8ToBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+/**
+ * Decode base64 into a UTF-8 string
+ */
+function base64ToUtf8(base64: string): string {
+  const binary = atob(base64.replace(/\s/g, ''))
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
+
 export interface GitHubConfig {
   owner: string
   repo: string
   branch?: string
   contentPath?: string
+  /** Save to `cms/<collection>/<id>` branches and publish through pull requests */
+  editorialWorkflow?: boolean
 }
 
 export interface GitHubFile {
@@ -32,6 +65,28 @@ export interface GitHubContent {
   path: string
 }
 
+export interface GitHubPullRequest {
+  number: number
+  title: string
+  html_url: string
+  updated_at: string
+  head: { ref: string }
+  labels: Array<{ name: string }>
+}
+
+/**
+ * A file change in a tree commit - base64 content to write, or null to delete
+ */
+export interface GitHubTreeChange {
+  path: string
+  /** Base64 content, or null to delete the file */
+  content: string | null
+  /** Sha of an existing blob to store at the path instead of content (for moves) */
+  sha?: string
+  /** Sha the file must still have on the branch, or the commit fails (optimistic locking) */
+  expectedSha?: string
+}
+
 /**
  * GitHub API client for content management
  */
@@ -118,15 +173,25 @@ export class GitHubClient {
     return response.json()
   }
 
+  /**
+   * Get a file's content as UTF-8 text
+   */
+  async getText(collection: string, filename: string): Promise<{ content: string; sha: string }> {
+    const file = await this.getFile(collection, filename)
+    return {
+      content: base64ToUtf8(file.content),
+      sha: file.sha,
+    }
+  }
+
   /**
    * Get and parse JSON content
    */
   async getJSON<T>(collection: string, filename: string): Promise<{ data: T; sha: string }> {
-    const content = await this.getFile(collection, filename)
-    const decoded = atob(content.content)
+    const { content, sha } = await this.getText(collection, filename)
     return {
-      data: JSON.parse(decoded) as T,
-      sha: content.sha,
+      data: JSON.parse(content) as T,
+      sha,
     }
   }
 
@@ -167,7 +232,7 @@ export class GitHubClient {
 
       const body: Record<string, string> = {
         message,
-        content: btoa(content),
+        content: utf8ToBase64(content),
         branch: this.config.branch!,
       }
 
@@ -218,12 +283,12 @@ export class GitHubClient {
    * Upload a binary file (image, etc.)
    * Returns the raw GitHub URL for the uploaded file
    */
-  async uploadFile(file: File, folder: string = 'uploads'): Promise<{ url: string; sha: string }> {
-    // Generate unique filename
-    const timestamp = Date.now()
-    const safeName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_')
-    const filename = `${timestamp}-${safeName}`
-    const path = `${this.config.contentPath}/${folder}/${filename}`
+  async uploadFile(
+    file: File,
+    folder: string = 'uploads',
+    options: UploadOptions = {},
+  ): Promise<{ url: string; path: string; sha: string }> {
+    const path = `${this.config.contentPath}/${folder}/${uploadFilename(file)}`
 
     // Convert file to base64
     const base64 = await this.fileToBase64(file)
@@ -240,23 +305,25 @@ export class GitHubClient {
         await new Promise(resolve => setTimeout(resolve, 1000 * attempt))
       }
 
-      const response = await fetch(url, {
-        method: 'PUT',
-        headers: this.headers,
-        body: JSON.stringify({
-          message: `cms: Upload ${file.name}`,
-          content: base64,
-          branch: this.config.branch,
-        }),
-      })
+      const response = await sendWithProgress(
+        url,
+        {
+          method: 'PUT',
+          headers: this.headers,
+          body: JSON.stringify({
+            message: `cms: Upload ${file.name}`,
+            content: base64,
+            branch: this.config.branch,
+          }),
+        },
+        options,
+      )
 
       if (response.ok) {
         const data = await response.json()
 
         // Return raw GitHub URL for the file
-        const rawUrl = `https://raw.githubusercontent.com/${this.config.owner}/${this.config.repo}/${this.config.branch}/${path}`
-
-        return { url: rawUrl, sha: data.content.sha }
+        return { url: this.rawUrl(path), path, sha: data.content.sha }
       }
 
       const error = await response.json()
@@ -273,10 +340,201 @@ export class GitHubClient {
     throw lastError || new Error('Failed to upload file after retries')
   }
 
+  /**
+   * Raw GitHub URL for a file path (relative to repo root)
+   */
+  rawUrl(path: string): string {
+    return `https://raw.githubusercontent.com/${this.config.owner}/${this.config.repo}/${this.config.branch}/${path}`
+  }
+
+  /**
+   * Send a request to a repo endpoint and parse the JSON response
+   */
+  private async request<T>(endpoint: string, method = 'GET', body?: unknown): Promise<T> {
+    const url = `${GITHUB_API}/repos/${this.config.owner}/${this.config.repo}/${endpoint}`
+    const response = await fetch(url, {
+      method,
+      headers: this.headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      const failure = new Error(`GitHub API error: ${error.message || response.statusText}`)
+      ;(failure as Error & { status: number }).status = response.status
+      throw failure
+    }
+
+    return response.status === 204 ? (undefined as T) : response.json()
+  }
+
+  /**
+   * Commit multiple file changes as a single commit using the Git Data API
+   * (blobs -> tree -> commit -> ref update).
+   * Returns the blob sha of every written path.
+   */
+  async commitFiles(changes: GitHubTreeChange[], message: string): Promise<Record<string, string>> {
+    // Blobs don't depend on the branch state, so they survive retries
+    const shas: Record<string, string> = {}
+    for (const change of changes) {
+      if (change.sha) {
+        shas[change.path] = change.sha
+      } else if (change.content !== null) {
+        const blob = await this.request<{ sha: string }>('git/blobs', 'POST', {
+          content: change.content,
+          encoding: 'base64',
+        })
+        shas[change.path] = blob.sha
+      }
+    }
+
+    // Retry when the branch moved between reading and updating the ref
+    const maxRetries = 3
+    let lastError: Error | null = null
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt))
+      }
+
+      const ref = await this.request<{ object: { sha: string } }>(
+        `git/ref/heads/${this.config.branch}`,
+      )
+      const parent = await this.request<{ tree: { sha: string } }>(`git/commits/${ref.object.sha}`)
+      await this.checkShas(changes, ref.object.sha)
+
+      const tree = await this.request<{ sha: string }>('git/trees', 'POST', {
+        base_tree: parent.tree.sha,
+        tree: changes.map(change => ({
+          path: change.path,
+          mode: '100644',
+          type: 'blob',
+          sha: shas[change.path] ?? null,
+        })),
+      })
+
+      const commit = await this.request<{ sha: string }>('git/commits', 'POST', {
+        message,
+        tree: tree.sha,
+        parents: [ref.object.sha],
+      })
+
+      try {
+        await this.request(`git/refs/heads/${this.config.branch}`, 'PATCH', { sha: commit.sha })
+        return shas
+      } catch (error) {
+        // 422: not a fast-forward, the branch was updated concurrently
+        if ((error as { status?: number }).status === 422 && attempt < maxRetries - 1) {
+          lastError = error as Error
+          continue
+        }
+        throw error
+      }
+    }
+
+    throw lastError || new Error('Failed to commit files after retries')
+  }
+
+  /**
+   * Fail when a file changed at `commit` since it was loaded - files deleted since don't conflict
+   */
+  private async checkShas(changes: GitHubTreeChange[], commit: string): Promise<void> {
+    for (const change of changes) {
+      if (!change.expectedSha) continue
+      const current = await this.request<{ sha: string }>(
+        `contents/${change.path}?ref=${commit}`,
+      ).catch(error => {
+        if ((error as { status?: number }).status === 404) return null
+        throw error
+      })
+      if (current && current.sha !== change.expectedSha) {
+        throw new Error(`Conflict: ${change.path} was modified since it was loaded`)
+      }
+    }
+  }
+
+  /**
+   * Get the blob sha of a file on the branch
+   */
+  async getFileSha(path: string): Promise<string> {
+    const file = await this.request<{ sha: string }>(`contents/${path}?ref=${this.config.branch}`)
+    return file.sha
+  }
+
+  /**
+   * Get the head commit sha of a branch, or null if it doesn't exist
+   */
+  async getBranchSha(branch: string): Promise<string | null> {
+    try {
+      const ref = await this.request<{ object: { sha: string } }>(`git/ref/heads/${branch}`)
+      return ref.object.sha
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) return null
+      throw error
+    }
+  }
+
+  /**
+   * Create a branch pointing at the head of the configured branch
+   */
+  async createBranch(branch: string): Promise<void> {
+    const sha = await this.getBranchSha(this.config.branch!)
+    if (!sha) throw new Error(`Branch not found: ${this.config.branch}`)
+    await this.request('git/refs', 'POST', { ref: `refs/heads/${branch}`, sha })
+  }
+
+  async deleteBranch(branch: string): Promise<void> {
+    await this.request(`git/refs/heads/${branch}`, 'DELETE')
+  }
+
+  /**
+   * List branch names starting with a prefix
+   */
+  async listBranches(prefix: string): Promise<string[]> {
+    const refs = await this.request<Array<{ ref: string }>>(`git/matching-refs/heads/${prefix}`)
+    return refs.map(ref => ref.ref.replace(/^refs\/heads\//, ''))
+  }
+
+  /**
+   * List open pull requests targeting the configured branch
+   */
+  async listPullRequests(): Promise<GitHubPullRequest[]> {
+    return this.request(`pulls?state=open&base=${this.config.branch}&per_page=100`)
+  }
+
+  async findPullRequest(branch: string): Promise<GitHubPullRequest | null> {
+    const pulls = await this.request<GitHubPullRequest[]>(
+      `pulls?state=open&head=${this.config.owner}:${branch}`,
+    )
+    return pulls[0] || null
+  }
+
+  async createPullRequest(branch: string, title: string): Promise<GitHubPullRequest> {
+    return this.request('pulls', 'POST', { title, head: branch, base: this.config.branch })
+  }
+
+  async closePullRequest(number: number): Promise<void> {
+    await this.request(`pulls/${number}`, 'PATCH', { state: 'closed' })
+  }
+
+  async mergePullRequest(number: number, title: string): Promise<void> {
+    await this.request(`pulls/${number}/merge`, 'PUT', {
+      commit_title: title,
+      merge_method: 'squash',
+    })
+  }
+
+  /**
+   * Replace the labels of a pull request (or issue)
+   */
+  async setLabels(number: number, labels: string[]): Promise<void> {
+    await this.request(`issues/${number}/labels`, 'PUT', { labels })
+  }
+
   /**
    * Convert File to base64 string (without data URL prefix)
    */
-  private fileToBase64(file: File): Promise<string> {
+  fileToBase64(file: File): Promise<string> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader()
       reader.onload = () => {
@@ -354,27 +612,49 @@ export interface GitHubBackendConfig extends GitHubConfig {
  * Use this with CMS component.
  */
 export function createGithubBackend(config: GitHubConfig) {
-  function create(config: GitHubBackendConfig): Backend {
+  function create(config: GitHubBackendConfig, plasticine?: PlasticineConfig<any>): Backend {
     const client = new GitHubClient(config.token, config)
     const branch = config.branch || 'main'
     const contentPath = config.contentPath || 'content'
 
+    const formatOf = (collection: string): ContentFormat =>
+      plasticine?.getFormat(collection) ?? jsonFormat()
+    /** Item file relative to the content directory (singletons have a fixed file) */
+    const itemFile = (collection: string, id: string) =>
+      plasticine?.getItemFile(collection, id) ?? `${collection}/${id}.json`
+
+    /**
+     * Read and deserialize an item file
+     */
+    const readItem = async (source: GitHubClient, collection: string, id: string) => {
+      const { content, sha } = await source.getText('', itemFile(collection, id))
+      return { id, sha, data: formatOf(collection).parse(content) }
+    }
+
     const content: ContentBackend = {
       async listCollection(collection: string): Promise<ContentItem[]> {
-        const files = await client.listCollection(collection)
+        // A singleton is its one file, if it was saved before
+        if (plasticine?.isSingleton(collection)) {
+          const path = `${contentPath}/${itemFile(collection, collection)}`
+          const files = await client.listFolder(path.slice(0, path.lastIndexOf('/')))
+          return files.some(file => file.path === path)
+            ? [await readItem(client, collection, collection)]
+            : []
+        }
+
+        // Items live in subfolders when the collection has a nested path template
+        const folder = `${contentPath}/${collection}`
+        const files = await client.listFolder(folder, !!plasticine?.isNested(collection))
+        const { extension } = formatOf(collection)
         const items: ContentItem[] = []
 
         for (const file of files) {
-          if (file.type === 'file' && file.name.endsWith('.json')) {
+          if (file.type === 'file' && file.name.endsWith(extension)) {
+            const id = file.path.slice(folder.length + 1, -extension.length)
             try {
-              const { data, sha } = await client.getJSON(collection, file.name)
-              items.push({
-                id: file.name.replace('.json', ''),
-                sha,
-                data: data as Record<string, unknown>,
-              })
+              items.push(await readItem(client, collection, id))
             } catch (e) {
-              console.error(`Failed to load ${file.name}:`, e)
+              console.error(`Failed to load ${file.path}:`, e)
             }
           }
         }
@@ -383,8 +663,7 @@ export function createGithubBackend(config: GitHubConfig) {
       },
 
       async getItem(collection: string, id: string): Promise<ContentItem> {
-        const { data, sha } = await client.getJSON(collection, `${id}.json`)
-        return { id, sha, data: data as Record<string, unknown> }
+        return readItem(client, collection, id)
       },
 
       async saveItem(
@@ -393,17 +672,15 @@ export function createGithubBackend(config: GitHubConfig) {
         data: Record<string, unknown>,
         sha?: string,
       ): Promise<{ sha?: string }> {
-        const filename = `${id}.json`
-        const message = sha
-          ? `cms: Update ${collection}/${filename}`
-          : `cms: Create ${collection}/${filename}`
-        return client.saveJSON(collection, filename, data, message, sha)
+        const file = itemFile(collection, id)
+        const message = sha ? `cms: Update ${file}` : `cms: Create ${file}`
+        const text = formatOf(collection).stringify(data)
+        return client.saveFile('', file, text, message, sha)
       },
 
       async deleteItem(collection: string, id: string, sha?: string): Promise<void> {
-        const filename = `${id}.json`
-        const message = `cms: Delete ${collection}/${filename}`
-        await client.deleteFile(collection, filename, message, sha!)
+        const file = itemFile(collection, id)
+        await client.deleteFile('', file, `cms: Delete ${file}`, sha!)
       },
     }
 
@@ -423,9 +700,13 @@ export function createGithubBackend(config: GitHubConfig) {
           }))
       },
 
-      async uploadFile(file: File, folder?: string): Promise<{ url: string; sha?: string }> {
+      async uploadFile(
+        file: File,
+        folder?: string,
+        options?: UploadOptions,
+      ): Promise<{ url: string; path: string; sha?: string }> {
         const uploadPath = folder ? `uploads/${folder}` : 'uploads'
-        return client.uploadFile(file, uploadPath)
+        return client.uploadFile(file, uploadPath, options)
       },
 
       async deleteFile(path: string, sha?: string): Promise<void> {
@@ -476,11 +757,168 @@ export function createGithubBackend(config: GitHubConfig) {
       },
     }
 
-    return { content, media, config: configBackend }
+    const itemPath = (collection: string, id: string) =>
+      `${contentPath}/${itemFile(collection, id)}`
+
+    const changeset = () =>
+      createChangeset({
+        resolveUpload(name, folder) {
+          const uploadPath = folder ? `uploads/${folder}` : 'uploads'
+          const path = `${contentPath}/${uploadPath}/${name}`
+          return { path, url: client.rawUrl(path) }
+        },
+
+        mediaUrl: path => client.rawUrl(path),
+
+        async commit(changes, message) {
+          const pathOf = (change: Change) =>
+            'collection' in change ? itemPath(change.collection, change.id) : change.path
+
+          const treeChanges = await Promise.all(
+            changes.map(async (change): Promise<GitHubTreeChange[]> => {
+              switch (change.type) {
+                case 'saveItem':
+                  return [
+                    {
+                      path: pathOf(change),
+                      content: utf8ToBase64(formatOf(change.collection).stringify(change.data)),
+                      expectedSha: change.sha,
+                    },
+                  ]
+                case 'uploadFile':
+                  return [{ path: pathOf(change), content: await client.fileToBase64(change.file) }]
+                case 'deleteItem':
+                case 'deleteFile':
+                  return [{ path: pathOf(change), content: null, expectedSha: change.sha }]
+                case 'moveFile': {
+                  // The blob is already in the repo - point the new path at it
+                  const sha = change.sha ?? (await client.getFileSha(change.from))
+                  return [
+                    { path: change.path, content: null, sha },
+                    { path: change.from, content: null, expectedSha: change.sha },
+                  ]
+                }
+              }
+            }),
+          )
+
+          const shas = await client.commitFiles(treeChanges.flat(), message)
+          return changesetResult(changes, change => shas[pathOf(change)])
+        },
+      })
+
+    const workflowBranch = (collection: string, id: string) =>
+      `${WORKFLOW_PREFIX}${collection}/${id}`
+
+    const branchClient = (branch: string) => new GitHubClient(config.token, { ...config, branch })
+
+    const statusOf = (pull?: GitHubPullRequest | null): WorkflowStatus => {
+      if (!pull) return 'draft'
+      return pull.labels.some(label => label.name === READY_LABEL) ? 'ready' : 'review'
+    }
+
+    /**
+     * Get the open pull request of an entry, opening one if needed
+     */
+    const ensurePullRequest = async (collection: string, id: string) => {
+      const branch = workflowBranch(collection, id)
+      const pull = await client.findPullRequest(branch)
+      return pull || client.createPullRequest(branch, `cms: ${collection}/${id}`)
+    }
+
+    const workflow: WorkflowBackend = {
+      async listEntries(): Promise<WorkflowEntry[]> {
+        const [branches, pulls] = await Promise.all([
+          client.listBranches(WORKFLOW_PREFIX),
+          client.listPullRequests(),
+        ])
+        const entries: WorkflowEntry[] = []
+
+        for (const name of branches) {
+          const [, collection, ...rest] = name.split('/')
+          const id = rest.join('/')
+          if (!collection || !id) continue
+
+          const pull = pulls.find(p => p.head.ref === name)
+          try {
+            const { sha, data } = await readItem(branchClient(name), collection, id)
+            entries.push({
+              collection,
+              id,
+              sha,
+              data,
+              status: statusOf(pull),
+              url: pull?.html_url,
+              updatedAt: pull?.updated_at,
+            })
+          } catch (e) {
+            console.error(`Failed to load draft ${name}:`, e)
+          }
+        }
+
+        return entries
+      },
+
+      async saveDraft(
+        collection: string,
+        id: string,
+        data: Record<string, unknown>,
+        sha?: string,
+      ): Promise<{ sha?: string }> {
+        const branch = workflowBranch(collection, id)
+        if (!(await client.getBranchSha(branch))) {
+          await client.createBranch(branch)
+        }
+        const file = itemFile(collection, id)
+        const text = formatOf(collection).stringify(data)
+        return branchClient(branch).saveFile('', file, text, `cms: Draft ${file}`, sha)
+      },
+
+      async setStatus(collection: string, id: string, status: WorkflowStatus): Promise<void> {
+        if (status === 'draft') {
+          // Back to draft: close the review but keep the branch
+          const pull = await client.findPullRequest(workflowBranch(collection, id))
+          if (pull) await client.closePullRequest(pull.number)
+          return
+        }
+
+        const pull = await ensurePullRequest(collection, id)
+        const labels = pull.labels
+          .map(label => label.name)
+          .filter(name => name !== REVIEW_LABEL && name !== READY_LABEL)
+        await client.setLabels(pull.number, [
+          ...labels,
+          status === 'ready' ? READY_LABEL : REVIEW_LABEL,
+        ])
+      },
+
+      async publish(collection: string, id: string): Promise<void> {
+        const pull = await ensurePullRequest(collection, id)
+        const message = `cms: Publish ${itemFile(collection, id)}`
+        await client.mergePullRequest(pull.number, message)
+        await client.deleteBranch(workflowBranch(collection, id))
+      },
+
+      async discard(collection: string, id: string): Promise<void> {
+        const branch = workflowBranch(collection, id)
+        const pull = await client.findPullRequest(branch)
+        if (pull) await client.closePullRequest(pull.number)
+        await client.deleteBranch(branch)
+      },
+    }
+
+    return {
+      content,
+      media,
+      config: configBackend,
+      changeset,
+      workflow: config.editorialWorkflow ? workflow : undefined,
+    }
   }
 
   return {
     config,
-    createBackend: (token: string) => create({ ...config, token }),
+    createBackend: (token: string, plasticine?: PlasticineConfig<any>) =>
+      create({ ...config, token }, plasticine),
   }
 }
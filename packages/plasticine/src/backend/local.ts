@@ -0,0 +1,144 @@
+import { createChangeset, sendWithProgress } from './changeset'
+import type {
+  Backend,
+  ConfigBackend,
+  ContentBackend,
+  ContentItem,
+  MediaBackend,
+  MediaFile,
+  UploadOptions,
+} from './types'
+
+export interface LocalConfig {
+  /** URL of the `plasticine dev` server (default: 'http://localhost:4321') */
+  url?: string
+  /** Content directory, relative to the server root (must match `plasticine dev --content`) */
+  contentPath?: string
+  /** Base URL of uploaded media (must match `plasticine dev --media-url`) */
+  mediaUrl?: string
+}
+
+/**
+ * Local backend factory - talks to the `plasticine dev` server,
+ * which reads and writes the working copy on disk.
+ * Use this with CMS component to edit content offline.
+ */
+export function createLocalBackend(config: LocalConfig = {}) {
+  function create(): Backend {
+    const baseUrl = (config.url || 'http://localhost:4321').replace(/\/$/, '')
+    const contentPath = config.contentPath || 'content'
+    const mediaUrl = (config.mediaUrl || `${baseUrl}/files`).replace(/\/$/, '')
+
+    const request = async <T>(path: string, init?: RequestInit): Promise<T> =>
+      parseResponse(await fetch(`${baseUrl}/api${path}`, init))
+
+    const parseResponse = async <T>(response: Response): Promise<T> => {
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        throw new Error(error.message || response.statusText)
+      }
+
+      return response.json()
+    }
+
+    const json = (method: string, body: unknown): RequestInit => ({
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+    const itemUrl = (collection: string, id: string) =>
+      `/content/${encodeURIComponent(collection)}/${encodeURIComponent(id)}`
+
+    const content: ContentBackend = {
+      async listCollection(collection: string): Promise<ContentItem[]> {
+        return request(`/content/${encodeURIComponent(collection)}`)
+      },
+
+      async getItem(collection: string, id: string): Promise<ContentItem> {
+        return request(itemUrl(collection, id))
+      },
+
+      async saveItem(
+        collection: string,
+        id: string,
+        data: Record<string, unknown>,
+        sha?: string,
+      ): Promise<{ sha?: string }> {
+        return request(itemUrl(collection, id), json('PUT', { data, sha }))
+      },
+
+      async deleteItem(collection: string, id: string, sha?: string): Promise<void> {
+        await request(itemUrl(collection, id), json('DELETE', { sha }))
+      },
+    }
+
+    const media: MediaBackend = {
+      async listMedia(): Promise<MediaFile[]> {
+        return request('/media')
+      },
+
+      async uploadFile(
+        file: File,
+        folder?: string,
+        options?: UploadOptions,
+      ): Promise<{ url: string; path: string; sha?: string }> {
+        const body = new FormData()
+        body.set('file', file)
+        if (folder) body.set('folder', folder)
+        return parseResponse(
+          await sendWithProgress(`${baseUrl}/api/media`, { method: 'POST', body }, options),
+        )
+      },
+
+      async deleteFile(path: string, sha?: string): Promise<void> {
+        await request('/media', json('DELETE', { path, sha }))
+      },
+    }
+
+    const configBackend: ConfigBackend = {
+      async readFile(path: string) {
+        return request(`/files?path=${encodeURIComponent(path)}`)
+      },
+
+      async writeFile(path: string, content: string, sha?: string) {
+        return request('/files', json('PUT', { path, content, sha }))
+      },
+    }
+
+    const changeset = () =>
+      createChangeset({
+        resolveUpload(name, folder) {
+          const uploadPath = folder ? `uploads/${folder}` : 'uploads'
+          const path = `${contentPath}/${uploadPath}/${name}`
+          return { path, url: `${mediaUrl}/${path}` }
+        },
+
+        mediaUrl: path => `${mediaUrl}/${path}`,
+
+        async commit(changes, message) {
+          // Files travel as multipart fields, referenced by index from the JSON changes
+          const body = new FormData()
+          body.set('message', message)
+          body.set(
+            'changes',
+            JSON.stringify(
+              changes.map((change, index) => {
+                if (change.type !== 'uploadFile') return change
+                body.set(`file-${index}`, change.file)
+                return { ...change, file: `file-${index}` }
+              }),
+            ),
+          )
+          return request('/changeset', { method: 'POST', body })
+        },
+      })
+
+    return { content, media, config: configBackend, changeset }
+  }
+
+  return {
+    config,
+    createBackend: () => create(),
+  }
+}
@@ -4,11 +4,14 @@
  * (e.g., MongoDB for content + S3 for media).
  */
 
+import type { PlasticineConfig } from '../config/define-config'
+
 /**
  * Backend factory interface - created by createGithubBackend(), etc.
+ * The CMS config is passed along so backends can resolve per-collection file formats.
  */
 export interface BackendFactory {
-  createBackend(token?: string): Backend
+  createBackend(token?: string, config?: PlasticineConfig<any>): Backend
 }
 
 export interface ContentItem {
@@ -37,9 +40,19 @@ export interface MediaFile {
   size: number
 }
 
+export interface UploadOptions {
+  /** Called as the file is sent - backends without progress call it once when done */
+  onProgress?: (loaded: number, total: number) => void
+  signal?: AbortSignal
+}
+
 export interface MediaBackend {
   listMedia(): Promise<MediaFile[]>
-  uploadFile(file: File, folder?: string): Promise<{ url: string; sha?: string }>
+  uploadFile(
+    file: File,
+    folder?: string,
+    options?: UploadOptions,
+  ): Promise<{ url: string; path: string; sha?: string }>
   deleteFile(path: string, sha?: string): Promise<void>
 }
 
@@ -53,8 +66,87 @@ export interface ConfigBackend {
   writeFile(path: string, content: string, sha?: string): Promise<{ sha?: string }>
 }
 
+/**
+ * A single queued change in a changeset. `sha` is the sha the file had when it was loaded -
+ * the commit fails when it changed since (optimistic locking).
+ */
+export type Change =
+  | {
+      type: 'saveItem'
+      collection: string
+      id: string
+      data: Record<string, unknown>
+      sha?: string
+    }
+  | { type: 'deleteItem'; collection: string; id: string; sha?: string }
+  | { type: 'uploadFile'; file: File; path: string; url: string }
+  | { type: 'deleteFile'; path: string; sha?: string }
+  | { type: 'moveFile'; from: string; path: string; url: string; sha?: string }
+
+export interface ChangesetResult {
+  /** Saved items with their new sha */
+  items: Array<{ collection: string; id: string; sha?: string }>
+  /** Uploaded media files */
+  files: MediaFile[]
+}
+
+/**
+ * Collects changes and applies them as one logical operation
+ * (a single commit on git-based backends).
+ */
+export interface Changeset {
+  saveItem(collection: string, id: string, data: Record<string, unknown>, sha?: string): void
+  deleteItem(collection: string, id: string, sha?: string): void
+  /**
+   * Queue an upload, returns the path and url the file will have once committed. Pass the `name`
+   * an earlier changeset gave the file to keep its url (default: a new unique name).
+   */
+  uploadFile(file: File, folder?: string, name?: string): { path: string; url: string }
+  deleteFile(path: string, sha?: string): void
+  /** Queue moving a file to a new path, returns the url it will have once committed */
+  moveFile(from: string, to: string, sha?: string): { path: string; url: string }
+  /** Queued changes, in order */
+  readonly changes: readonly Change[]
+  commit(message: string): Promise<ChangesetResult>
+}
+
+export type WorkflowStatus = 'draft' | 'review' | 'ready'
+
+/**
+ * An unpublished change to a single item
+ */
+export interface WorkflowEntry extends ContentItem {
+  collection: string
+  status: WorkflowStatus
+  /** Link to the review (e.g. pull request) if one is open */
+  url?: string
+  updatedAt?: string
+}
+
+/**
+ * Editorial workflow - changes are saved as drafts, reviewed and then published
+ */
+export interface WorkflowBackend {
+  listEntries(): Promise<WorkflowEntry[]>
+  saveDraft(
+    collection: string,
+    id: string,
+    data: Record<string, unknown>,
+    sha?: string,
+  ): Promise<{ sha?: string }>
+  setStatus(collection: string, id: string, status: WorkflowStatus): Promise<void>
+  /** Publish the draft to the main content and remove the entry */
+  publish(collection: string, id: string): Promise<void>
+  /** Throw the draft away */
+  discard(collection: string, id: string): Promise<void>
+}
+
 export interface Backend {
   content: ContentBackend
   media: MediaBackend
   config: ConfigBackend
+  /** Start a changeset - queued changes are committed together */
+  changeset(): Changeset
+  /** Editorial workflow, if the backend has it enabled */
+  workflow?: WorkflowBackend
 }
@@ -3,7 +3,14 @@ import type {
   CollectionsConfig,
   PlasticineConfig,
   VersionedSchemaBase,
-} from '../config/define-config'
+} from '../config/define-config.ts'
+import {
+  createReferenceResolver,
+  type PopulateOption,
+  type Populated,
+  type PopulatedOutput,
+} from './populate.ts'
+import { createQuery, type CollectionQuery } from './query.ts'
 
 /**
  * Extract the output type from a VersionedSchema
@@ -17,35 +24,78 @@ export interface ContentFetcher {
   /** List all items in a collection */
   listItems(collection: string): Promise<string[]>
 
-  /** Get raw content for a specific item */
+  /** Get raw content for a specific item (singletons are read with their name as id) */
   getItem(collection: string, id: string): Promise<unknown>
 
   /** Check if an item exists */
   hasItem(collection: string, id: string): Promise<boolean>
+
+  /**
+   * Get raw content for several items of a collection by id, leaving out those that don't exist.
+   * Optional - populate loads each collection's references with one call when it's given.
+   */
+  getItems?(collection: string, ids: string[]): Promise<Record<string, unknown>>
+}
+
+/**
+ * Options for reading items
+ */
+export interface GetOptions<TPopulate> {
+  /** Replace reference ids with their target documents (all, or those in the given fields) */
+  populate?: TPopulate
 }
 
 /**
  * Collection accessor with typed methods
  */
-export interface CollectionAccessor<TOutput> {
+export interface CollectionAccessor<TOutput, TPopulated = TOutput> {
   /** List all item IDs in this collection */
   list(): Promise<string[]>
 
   /** Get a single item by ID */
-  get(id: string): Promise<TOutput>
+  get<const TPopulate extends PopulateOption<TOutput> | false = false>(
+    id: string,
+    options?: GetOptions<TPopulate>,
+  ): Promise<Populated<TOutput, TPopulated, TPopulate>>
 
-  /** Get all items in this collection */
-  getAll(): Promise<Array<{ id: string; data: TOutput }>>
+  /** Get all items in this collection, in the collection's default sort order */
+  getAll<const TPopulate extends PopulateOption<TOutput> | false = false>(
+    options?: GetOptions<TPopulate>,
+  ): Promise<Array<{ id: string; data: Populated<TOutput, TPopulated, TPopulate> }>>
 
   /** Check if an item exists */
   has(id: string): Promise<boolean>
+
+  /** Query items with typed filters, sorting and pagination */
+  query(): CollectionQuery<TOutput>
 }
 
 /**
- * Client type - provides typed access to all collections
+ * Singleton accessor - a single item, read from its fixed file
+ */
+export interface SingletonAccessor<TOutput, TPopulated = TOutput> {
+  /** Get the item */
+  get<const TPopulate extends PopulateOption<TOutput> | false = false>(
+    options?: GetOptions<TPopulate>,
+  ): Promise<Populated<TOutput, TPopulated, TPopulate>>
+
+  /** Check if the item was saved */
+  has(): Promise<boolean>
+}
+
+/**
+ * Client type - provides typed access to all collections and singletons
  */
 export type PlasticineClient<TCollections extends CollectionsConfig> = {
-  [K in keyof TCollections & string]: CollectionAccessor<InferVersionedOutput<TCollections[K]>>
+  [K in keyof TCollections & string]: TCollections[K] extends { singleton: true }
+    ? SingletonAccessor<
+        InferVersionedOutput<TCollections[K]>,
+        PopulatedOutput<TCollections[K]['schema'], TCollections>
+      >
+    : CollectionAccessor<
+        InferVersionedOutput<TCollections[K]>,
+        PopulatedOutput<TCollections[K]['schema'], TCollections>
+      >
 }
 
 /**
@@ -72,19 +122,43 @@ export function createClient<TCollections extends CollectionsConfig>(
   const collections = config.getCollections()
 
   const client = {} as PlasticineClient<TCollections>
+  const populate = createReferenceResolver(config, fetcher)
 
   for (const name of collections) {
-    const accessor: CollectionAccessor<unknown> = {
+    // Singletons are stored as one item, with the singleton's name as id
+    if (config.isSingleton(name)) {
+      const accessor: SingletonAccessor<any> = {
+        async get(options?: GetOptions<PopulateOption<any> | false>): Promise<any> {
+          const raw = await fetcher.getItem(name, name)
+          const item = { data: config.parseCollection(name, raw) }
+          if (!options?.populate) return item.data
+          const [populated] = await populate(name, [item], options.populate)
+          return populated.data
+        },
+
+        async has() {
+          return fetcher.hasItem(name, name)
+        },
+      }
+
+      ; (client as Record<string, SingletonAccessor<unknown>>)[name] = accessor
+      continue
+    }
+
+    const accessor: CollectionAccessor<any> = {
       async list() {
         return fetcher.listItems(name)
       },
 
-      async get(id: string) {
+      async get(id: string, options?: GetOptions<PopulateOption<any> | false>): Promise<any> {
         const raw = await fetcher.getItem(name, id)
-        return config.parseCollection(name, raw)
+        const item = { data: config.parseCollection(name, raw) }
+        if (!options?.populate) return item.data
+        const [populated] = await populate(name, [item], options.populate)
+        return populated.data
       },
 
-      async getAll() {
+      async getAll(options?: GetOptions<PopulateOption<any> | false>): Promise<any> {
         const ids = await fetcher.listItems(name)
         const items = await Promise.all(
           ids.map(async id => {
@@ -93,12 +167,22 @@ export function createClient<TCollections extends CollectionsConfig>(
             return { id, data }
           }),
         )
-        return items
+        // Apply the collection's default sort
+        const sorted = config.sortItems(
+          name,
+          items as Array<{ id: string; data: Record<string, unknown> }>,
+        )
+        // References of all items are resolved together, so each target is fetched once
+        return options?.populate ? populate(name, sorted, options.populate) : sorted
       },
 
       async has(id: string) {
         return fetcher.hasItem(name, id)
       },
+
+      query() {
+        return createQuery(() => accessor.getAll())
+      },
     }
 
       ; (client as Record<string, CollectionAccessor<unknown>>)[name] = accessor
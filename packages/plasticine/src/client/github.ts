@@ -12,45 +12,65 @@ export interface GitHubClientOptions {
     contentPath?: string
 }
 
-function createGitHubFetcher(options: GitHubClientOptions): ContentFetcher {
+function createGitHubFetcher(
+    options: GitHubClientOptions,
+    config: PlasticineConfig<any>,
+): ContentFetcher {
     const { owner, repo, branch = 'main', contentPath = 'content' } = options
 
     const baseUrl = `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${contentPath}`
     const apiUrl = `https://api.github.com/repos/${owner}/${repo}/contents/${contentPath}`
 
-    return {
-        async listItems(collection: string): Promise<string[]> {
-            const response = await fetch(`${apiUrl}/${collection}?ref=${branch}`, {
-                headers: {
-                    Accept: 'application/vnd.github.v3+json',
-                },
-            })
+    /**
+     * List file ids in a collection folder, recursing into subfolders for nested collections
+     */
+    async function listFolder(collection: string, folder: string): Promise<string[]> {
+        const response = await fetch(`${apiUrl}/${collection}${folder}?ref=${branch}`, {
+            headers: {
+                Accept: 'application/vnd.github.v3+json',
+            },
+        })
 
-            if (!response.ok) {
-                if (response.status === 404) {
-                    return []
-                }
-                throw new Error(`Failed to list items: ${response.statusText}`)
+        if (!response.ok) {
+            if (response.status === 404) {
+                return []
+            }
+            throw new Error(`Failed to list items: ${response.statusText}`)
+        }
+
+        const { extension } = config.getFormat(collection)
+        const files = (await response.json()) as Array<{ name: string; type: string }>
+        const ids = files
+            .filter((f) => f.type === 'file' && f.name.endsWith(extension))
+            .map((f) => `${folder}/${f.name.slice(0, -extension.length)}`.slice(1))
+
+        if (config.isNested(collection)) {
+            for (const dir of files.filter((f) => f.type === 'dir')) {
+                ids.push(...(await listFolder(collection, `${folder}/${dir.name}`)))
             }
+        }
+
+        return ids
+    }
 
-            const files = (await response.json()) as Array<{ name: string; type: string }>
-            return files
-                .filter((f) => f.type === 'file' && f.name.endsWith('.json'))
-                .map((f) => f.name.replace(/\.json$/, ''))
+    return {
+        async listItems(collection: string): Promise<string[]> {
+            return listFolder(collection, '')
         },
 
         async getItem(collection: string, id: string): Promise<unknown> {
-            const response = await fetch(`${baseUrl}/${collection}/${id}.json`)
+            const format = config.getFormat(collection)
+            const response = await fetch(`${baseUrl}/${config.getItemFile(collection, id)}`)
 
             if (!response.ok) {
                 throw new Error(`Failed to get item ${collection}/${id}: ${response.statusText}`)
             }
 
-            return response.json()
+            return format.parse(await response.text())
         },
 
         async hasItem(collection: string, id: string): Promise<boolean> {
-            const response = await fetch(`${baseUrl}/${collection}/${id}.json`, {
+            const response = await fetch(`${baseUrl}/${config.getItemFile(collection, id)}`, {
                 method: 'HEAD',
             })
             return response.ok
@@ -80,5 +100,5 @@ export function createGitHubClient<TCollections extends CollectionsConfig>(
     config: PlasticineConfig<TCollections>,
     options: GitHubClientOptions,
 ): PlasticineClient<TCollections> {
-    return createClient(config, createGitHubFetcher(options))
+    return createClient(config, createGitHubFetcher(options, config))
 }
\ No newline at end of file
@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { markdownToHTML, parseMarkdown } from './markdown.ts'
+import { richTextToMarkdown } from './richtext.ts'
+
+describe('parseMarkdown', () => {
+  test('parses headings, paragraphs and dividers', () => {
+    assert.deepEqual(parseMarkdown('# Title\n\nSome text\n\n---\n\nSub\n==='), {
+      type: 'doc',
+      children: [
+        { type: 'heading', level: 1, children: [{ type: 'text', text: 'Title' }] },
+        { type: 'paragraph', children: [{ type: 'text', text: 'Some text' }] },
+        { type: 'divider' },
+        { type: 'heading', level: 1, children: [{ type: 'text', text: 'Sub' }] },
+      ],
+    })
+  })
+
+  test('parses emphasis, code spans and links', () => {
+    const doc = parseMarkdown('**bold** *it* `a*b*` [link](https://example.com "Title")')
+    assert.deepEqual(doc.children[0], {
+      type: 'paragraph',
+      children: [
+        { type: 'text', text: 'bold', marks: [{ type: 'bold' }] },
+        { type: 'text', text: ' ' },
+        { type: 'text', text: 'it', marks: [{ type: 'italic' }] },
+        { type: 'text', text: ' ' },
+        { type: 'text', text: 'a*b*', marks: [{ type: 'code' }] },
+        { type: 'text', text: ' ' },
+        {
+          type: 'text',
+          text: 'link',
+          marks: [{ type: 'link', href: 'https://example.com', title: 'Title' }],
+        },
+      ],
+    })
+  })
+
+  test('keeps intraword underscores as text', () => {
+    assert.deepEqual(parseMarkdown('snake_case_name').children[0], {
+      type: 'paragraph',
+      children: [{ type: 'text', text: 'snake_case_name' }],
+    })
+  })
+
+  test('splits images out of paragraphs into blocks', () => {
+    assert.deepEqual(parseMarkdown('Before ![Alt](/a.png) after').children, [
+      { type: 'paragraph', children: [{ type: 'text', text: 'Before' }] },
+      { type: 'image', src: '/a.png', alt: 'Alt' },
+      { type: 'paragraph', children: [{ type: 'text', text: 'after' }] },
+    ])
+  })
+
+  test('parses nested lists, quotes and fenced code', () => {
+    const doc = parseMarkdown(
+      '- one\n  1. nested\n- two\n\n> quoted\nlazy\n\n```ts\nconst a = 1\n```',
+    )
+    assert.deepEqual(doc.children, [
+      {
+        type: 'list',
+        ordered: false,
+        items: [
+          {
+            type: 'list_item',
+            children: [
+              { type: 'paragraph', children: [{ type: 'text', text: 'one' }] },
+              {
+                type: 'list',
+                ordered: true,
+                items: [
+                  {
+                    type: 'list_item',
+                    children: [{ type: 'paragraph', children: [{ type: 'text', text: 'nested' }] }],
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            type: 'list_item',
+            children: [{ type: 'paragraph', children: [{ type: 'text', text: 'two' }] }],
+          },
+        ],
+      },
+      {
+        type: 'blockquote',
+        children: [{ type: 'paragraph', children: [{ type: 'text', text: 'quoted lazy' }] }],
+      },
+      { type: 'code_block', text: 'const a = 1', language: 'ts' },
+    ])
+  })
+
+  test('round trips through richTextToMarkdown', () => {
+    const markdown = [
+      '## Heading',
+      'A **bold** and *italic* [link](<https://example.com>) with `code`',
+      '- one\n- two',
+      '> quoted',
+      '![Alt](</media/a.png>)',
+      '```js\nlet a = `b`\n```',
+      '---',
+    ].join('\n\n')
+    const doc = parseMarkdown(markdown)
+    assert.equal(richTextToMarkdown(doc), markdown)
+    assert.deepEqual(parseMarkdown(richTextToMarkdown(doc)), doc)
+  })
+
+  test('escapes characters that would parse as markdown', () => {
+    const doc = parseMarkdown('\\# not a heading \\*not italic\\*')
+    assert.deepEqual(parseMarkdown(richTextToMarkdown(doc)), doc)
+    assert.equal(markdownToHTML(richTextToMarkdown(doc)), '<p># not a heading *not italic*</p>')
+  })
+})
+
+describe('markdownToHTML', () => {
+  test('escapes raw HTML', () => {
+    assert.equal(
+      markdownToHTML('<script>alert(1)</script> & "quotes"'),
+      '<p>&lt;script&gt;alert(1)&lt;/script&gt; &amp; &quot;quotes&quot;</p>',
+    )
+  })
+
+  test('escapes attributes', () => {
+    assert.equal(
+      markdownToHTML('[x](<https://a.com/"onclick="alert(1)>)'),
+      '<p><a href="https://a.com/&quot;onclick=&quot;alert(1)">x</a></p>',
+    )
+  })
+
+  test('drops javascript: links and images', () => {
+    assert.equal(markdownToHTML('[x](javascript:alert(1))'), '<p>[x](javascript:alert(1))</p>')
+    assert.equal(markdownToHTML('[x](<javascript:alert(1)>)'), '<p><a href="#">x</a></p>')
+    assert.equal(markdownToHTML('![x](<JavaScript:alert(1)>)'), '<img src="#" alt="x">')
+  })
+
+  test('drops script links hidden by control characters and whitespace', () => {
+    for (const href of ['\x01javascript:alert(1)', 'java\x00script:x', 'java\x1fscript:x']) {
+      assert.equal(markdownToHTML(`[x](<${href}>)`), '<p><a href="#">x</a></p>', href)
+      assert.equal(markdownToHTML(`![x](<${href}>)`), '<img src="#" alt="x">', href)
+    }
+    assert.equal(markdownToHTML('[x](\x01javascript:void)'), '<p><a href="#">x</a></p>')
+  })
+
+  test('keeps script links out of parsed documents', () => {
+    assert.deepEqual(parseMarkdown('[x](<\x01javascript:alert(1)>)').children[0], {
+      type: 'paragraph',
+      children: [{ type: 'text', text: 'x', marks: [{ type: 'link', href: '#' }] }],
+    })
+  })
+})
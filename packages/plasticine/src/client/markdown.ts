@@ -0,0 +1,397 @@
+import {
+  normalizeRichTextInline,
+  type RichTextBlock,
+  type RichTextDocument,
+  type RichTextImage,
+  type RichTextInline,
+  type RichTextListItem,
+  type RichTextMark,
+} from '../config/richtext.ts'
+import { richTextToHTML, safeHref, type RichTextRenderOptions } from './richtext.ts'
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                     Inline                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+const PUNCTUATION = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/
+
+/**
+ * Destination and title of a link or image, from `(url "title")` at `start`. Destinations
+ * that would run script are replaced, so parsed documents never hold them.
+ */
+function parseDestination(text: string, start: number) {
+  const match = /^\(\s*(?:<([^>\n]*)>|([^\s()]*))(?:\s+"([^"]*)"|\s+'([^']*)')?\s*\)/.exec(
+    text.slice(start),
+  )
+  if (!match) return undefined
+  return {
+    href: safeHref(match[1] ?? match[2] ?? ''),
+    title: match[3] ?? match[4],
+    end: start + match[0].length,
+  }
+}
+
+/**
+ * Index of the `]` closing the bracket opened at `start`
+ */
+function closingBracket(text: string, start: number) {
+  let depth = 0
+  for (let index = start; index < text.length; index++) {
+    if (text[index] === '\\') index++
+    else if (text[index] === '[') depth++
+    else if (text[index] === ']' && --depth === 0) return index
+  }
+  return -1
+}
+
+/**
+ * Index of the delimiter closing emphasis opened at `start`, skipping code spans and escapes
+ */
+function closingDelimiter(text: string, start: number, delimiter: string) {
+  const char = delimiter[0]
+  for (let index = start; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++
+    } else if (text[index] === '`') {
+      const run = /^`+/.exec(text.slice(index))![0]
+      const close = text.indexOf(run, index + run.length)
+      if (close !== -1) index = close + run.length - 1
+    } else if (text[index] === char) {
+      const run = text.slice(index).match(new RegExp(`^\\${char}+`))![0].length
+      const closes =
+        index > start &&
+        !/\s/.test(text[index - 1]) &&
+        (char !== '_' || !/[A-Za-z0-9]/.test(text[index + run] ?? ''))
+      // A run closes emphasis of its length - `***` closes `**` around an inner `*`
+      if (closes && (run === delimiter.length || run === 3)) {
+        return index + run - delimiter.length
+      }
+      index += run - 1
+    }
+  }
+  return -1
+}
+
+function parseInline(
+  text: string,
+  marks: RichTextMark[],
+  out: RichTextInline[],
+  onImage: (image: RichTextImage) => void,
+) {
+  let buffer = ''
+  const flush = () => {
+    if (buffer)
+      out.push(
+        marks.length > 0 ? { type: 'text', text: buffer, marks } : { type: 'text', text: buffer },
+      )
+    buffer = ''
+  }
+  const withMark = (mark: RichTextMark) => [...marks.filter(m => m.type !== mark.type), mark]
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    const rest = text.slice(index)
+
+    if (char === '\\' && text[index + 1] === '\n') {
+      buffer += '\n'
+      index++
+      continue
+    }
+    if (char === '\\' && PUNCTUATION.test(text[index + 1] ?? '')) {
+      buffer += text[++index]
+      continue
+    }
+    if (char === '\n') {
+      // Two trailing spaces make a hard line break, other newlines are soft
+      const hard = / {2,}$/.test(buffer)
+      buffer = buffer.replace(/ +$/, '') + (hard ? '\n' : ' ')
+      continue
+    }
+
+    if (char === '`') {
+      const run = /^`+/.exec(rest)![0]
+      const close = text.indexOf(run, index + run.length)
+      if (close !== -1 && text[close + run.length] !== '`') {
+        flush()
+        let code = text.slice(index + run.length, close).replace(/\n/g, ' ')
+        if (/^ .* $/.test(code) && code.trim()) code = code.slice(1, -1)
+        out.push({ type: 'text', text: code, marks: withMark({ type: 'code' }) })
+        index = close + run.length - 1
+        continue
+      }
+      buffer += run
+      index += run.length - 1
+      continue
+    }
+
+    if (char === '!' && text[index + 1] === '[') {
+      const close = closingBracket(text, index + 1)
+      const destination = close !== -1 ? parseDestination(text, close + 1) : undefined
+      if (destination) {
+        flush()
+        const image: RichTextImage = { type: 'image', src: destination.href }
+        const alt = text.slice(index + 2, close)
+        if (alt) image.alt = alt
+        if (destination.title) image.title = destination.title
+        onImage(image)
+        index = destination.end - 1
+        continue
+      }
+    }
+
+    if (char === '[') {
+      const close = closingBracket(text, index)
+      const destination = close !== -1 ? parseDestination(text, close + 1) : undefined
+      if (destination) {
+        flush()
+        const link: RichTextMark = { type: 'link', href: destination.href }
+        if (destination.title) link.title = destination.title
+        parseInline(text.slice(index + 1, close), withMark(link), out, onImage)
+        index = destination.end - 1
+        continue
+      }
+    }
+
+    if (char === '<') {
+      const autolink = /^<((?:https?|mailto):[^\s<>]+)>/i.exec(rest)
+      if (autolink) {
+        flush()
+        out.push({
+          type: 'text',
+          text: autolink[1],
+          marks: withMark({ type: 'link', href: autolink[1] }),
+        })
+        index += autolink[0].length - 1
+        continue
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const double = text[index + 1] === char
+      const delimiter = double ? char + char : char
+      const opensWord = !/\s/.test(text[index + delimiter.length] ?? ' ')
+      const intraword = char === '_' && /[A-Za-z0-9]/.test(text[index - 1] ?? '')
+      const close =
+        opensWord && !intraword ? closingDelimiter(text, index + delimiter.length, delimiter) : -1
+      if (close !== -1) {
+        flush()
+        const mark: RichTextMark = { type: double ? 'bold' : 'italic' }
+        parseInline(text.slice(index + delimiter.length, close), withMark(mark), out, onImage)
+        index = close + delimiter.length - 1
+        continue
+      }
+      buffer += delimiter
+      index += delimiter.length - 1
+      continue
+    }
+
+    buffer += char
+  }
+  flush()
+}
+
+/**
+ * Parse a paragraph's text - images become blocks of their own
+ */
+function parseParagraph(
+  text: string,
+  wrap: (children: RichTextInline[]) => RichTextBlock,
+): RichTextBlock[] {
+  const blocks: RichTextBlock[] = []
+  const inline: RichTextInline[] = []
+
+  // Emptied in place - parseInline keeps appending to the same array after an image
+  const flush = () => {
+    const children = normalizeRichTextInline(inline.splice(0))
+    if (children.length > 0) blocks.push(wrap(children))
+  }
+
+  parseInline(text.trim(), [], inline, image => {
+    flush()
+    blocks.push(image)
+  })
+  flush()
+  return blocks
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                     Blocks                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/
+const DIVIDER = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/
+const FENCE = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/
+const QUOTE = /^ {0,3}> ?/
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])([ \t]+|$)/
+const SETEXT = /^ {0,3}(=+|-+)[ \t]*$/
+
+const isBlank = (line: string) => line.trim() === ''
+
+/**
+ * Whether a line starts a block that ends a paragraph
+ */
+function interruptsParagraph(line: string) {
+  const item = LIST_ITEM.exec(line)
+  // Only lists starting at 1 (or unordered) with content interrupt a paragraph
+  const list = item && item[3] && (/^[-+*]$/.test(item[2]) || /^1[.)]$/.test(item[2]))
+  return HEADING.test(line) || DIVIDER.test(line) || FENCE.test(line) || QUOTE.test(line) || !!list
+}
+
+function parseBlocks(lines: string[]): RichTextBlock[] {
+  const blocks: RichTextBlock[] = []
+  let index = 0
+
+  while (index < lines.length) {
+    const line = lines[index]
+
+    if (isBlank(line)) {
+      index++
+      continue
+    }
+
+    const fence = FENCE.exec(line)
+    if (fence) {
+      const [, indent, marker, language] = fence
+      const code: string[] = []
+      index++
+      while (index < lines.length) {
+        const closing = lines[index].trim()
+        if (closing.startsWith(marker) && /^(`+|~+)$/.test(closing) && closing[0] === marker[0]) {
+          index++
+          break
+        }
+        // Content is unindented by as much as the opening fence
+        code.push(lines[index].replace(new RegExp(`^ {0,${indent.length}}`), ''))
+        index++
+      }
+      blocks.push({ type: 'code_block', text: code.join('\n'), ...(language && { language }) })
+      continue
+    }
+
+    const heading = HEADING.exec(line)
+    if (heading) {
+      const level = heading[1].length as 1 | 2 | 3 | 4 | 5 | 6
+      blocks.push(
+        ...parseParagraph(heading[2] ?? '', children => ({ type: 'heading', level, children })),
+      )
+      index++
+      continue
+    }
+
+    if (DIVIDER.test(line)) {
+      blocks.push({ type: 'divider' })
+      index++
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      // Lines without `>` continue the quote until a blank line (lazy continuation)
+      while (index < lines.length && !isBlank(lines[index])) {
+        const current = lines[index]
+        if (QUOTE.test(current)) quoted.push(current.replace(QUOTE, ''))
+        else if (interruptsParagraph(current)) break
+        else quoted.push(current)
+        index++
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) })
+      continue
+    }
+
+    const item = LIST_ITEM.exec(line)
+    if (item) {
+      const ordered = /\d/.test(item[2])
+      const delimiter = item[2].slice(-1)
+      const items: RichTextListItem[] = []
+
+      while (index < lines.length) {
+        const current = LIST_ITEM.exec(lines[index])
+        if (!current || /\d/.test(current[2]) !== ordered || current[2].slice(-1) !== delimiter) {
+          break
+        }
+
+        // Continuation lines are indented to the item's content
+        const width = current[1].length + current[2].length + Math.max(1, current[3].length)
+        const content = [lines[index].slice(current[0].length)]
+        index++
+        while (index < lines.length) {
+          const next = lines[index]
+          if (isBlank(next)) {
+            const following = lines.slice(index + 1).find(line => !isBlank(line))
+            if (following === undefined || !following.startsWith(' '.repeat(width))) break
+            content.push('')
+          } else if (next.startsWith(' '.repeat(width))) {
+            content.push(next.slice(width))
+          } else if (
+            !isBlank(content[content.length - 1]) &&
+            !LIST_ITEM.test(next) &&
+            !interruptsParagraph(next)
+          ) {
+            content.push(next.trimStart())
+          } else {
+            break
+          }
+          index++
+        }
+
+        items.push({ type: 'list_item', children: parseBlocks(content) })
+        // A blank line between items keeps the list going
+        while (index < lines.length && isBlank(lines[index])) {
+          const following = lines.slice(index).find(line => !isBlank(line))
+          if (!following || !LIST_ITEM.test(following)) break
+          index++
+        }
+      }
+
+      blocks.push({ type: 'list', ordered, items })
+      continue
+    }
+
+    // Paragraph, up to a blank line or another block
+    const paragraph = [line]
+    index++
+    let level: 1 | 2 | undefined
+    while (index < lines.length && !isBlank(lines[index])) {
+      const setext = SETEXT.exec(lines[index])
+      if (setext) {
+        level = setext[1][0] === '=' ? 1 : 2
+        index++
+        break
+      }
+      if (interruptsParagraph(lines[index])) break
+      paragraph.push(lines[index])
+      index++
+    }
+
+    const text = paragraph.map(part => part.replace(/^[ \t]+/, '')).join('\n')
+    blocks.push(
+      ...parseParagraph(text, children =>
+        level ? { type: 'heading', level, children } : { type: 'paragraph', children },
+      ),
+    )
+  }
+
+  return blocks
+}
+
+/**
+ * Parse Markdown (the common subset of CommonMark) into a rich text document.
+ * Raw HTML is kept as text.
+ */
+export function parseMarkdown(markdown: string): RichTextDocument {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n')
+  return { type: 'doc', children: parseBlocks(lines) }
+}
+
+/**
+ * Render Markdown to HTML. It's parsed into a rich text document first, so all text is
+ * escaped, raw HTML in the Markdown is shown as text and only web, mail and phone links are
+ * kept - the output is safe to insert.
+ */
+export function markdownToHTML(markdown: string, options?: RichTextRenderOptions): string {
+  return richTextToHTML(parseMarkdown(markdown), options)
+}
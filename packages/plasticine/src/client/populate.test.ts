@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import * as v from 'valibot'
+import { defineConfig } from '../config/define-config.ts'
+import { reference, text } from '../config/fields.ts'
+import { schema } from '../config/schema.ts'
+import { createClient, type ContentFetcher } from './client.ts'
+
+const config = defineConfig({
+  authors: schema(v.object({ name: text() })),
+  posts: schema(
+    v.object({
+      title: text(),
+      author: v.optional(reference('authors')),
+      credits: v.array(v.object({ author: reference('authors') })),
+    }),
+  ),
+})
+
+const content: Record<string, Record<string, Record<string, unknown>>> = {
+  authors: { ada: { name: 'Ada' }, bob: { name: 'Bob' } },
+  posts: {
+    a: { title: 'A', author: 'ada', credits: [{ author: 'bob' }, { author: 'gone' }] },
+    b: { title: 'B', author: 'ada', credits: [] },
+  },
+}
+
+/**
+ * Fetcher over `content` that records its calls
+ */
+function createFetcher(batched: boolean) {
+  const calls: string[] = []
+  const items = (collection: string) => content[collection] ?? {}
+  const fetcher: ContentFetcher = {
+    async listItems(collection) {
+      calls.push(`list ${collection}`)
+      return Object.keys(items(collection))
+    },
+    async getItem(collection, id) {
+      calls.push(`get ${collection}/${id}`)
+      if (!Object.hasOwn(items(collection), id)) throw new Error(`Missing ${collection}/${id}`)
+      return items(collection)[id]
+    },
+    async hasItem(collection, id) {
+      calls.push(`has ${collection}/${id}`)
+      return Object.hasOwn(items(collection), id)
+    },
+  }
+  if (batched) {
+    fetcher.getItems = async (collection, ids) => {
+      calls.push(`getItems ${collection} ${ids.join(',')}`)
+      return Object.fromEntries(
+        ids
+          .filter(id => Object.hasOwn(items(collection), id))
+          .map(id => [id, items(collection)[id]]),
+      )
+    }
+  }
+  return { fetcher, calls }
+}
+
+const expected = [
+  {
+    title: 'A',
+    author: { name: 'Ada' },
+    credits: [{ author: { name: 'Bob' } }, { author: null }],
+  },
+  { title: 'B', author: { name: 'Ada' }, credits: [] },
+]
+
+describe('populate', () => {
+  test('loads every target collection with one getItems call', async () => {
+    const { fetcher, calls } = createFetcher(true)
+    const posts = await createClient(config, fetcher).posts.getAll({ populate: true })
+
+    assert.deepEqual(
+      posts.map(post => post.data),
+      expected,
+    )
+    assert.deepEqual(
+      calls.filter(call => !call.startsWith('get posts/')),
+      ['list posts', 'getItems authors ada,bob,gone'],
+    )
+  })
+
+  test('fetches each target once without getItems', async () => {
+    const { fetcher, calls } = createFetcher(false)
+    const posts = await createClient(config, fetcher).posts.getAll({ populate: true })
+
+    assert.deepEqual(
+      posts.map(post => post.data),
+      expected,
+    )
+    assert.deepEqual(calls.filter(call => call.includes('authors/')).sort(), [
+      'get authors/ada',
+      'get authors/bob',
+      'get authors/gone',
+      'has authors/gone',
+    ])
+  })
+
+  test('only resolves the selected fields', async () => {
+    const { fetcher, calls } = createFetcher(true)
+    const post = await createClient(config, fetcher).posts.get('a', { populate: ['author'] })
+
+    assert.deepEqual(post, { ...content.posts.a, author: { name: 'Ada' } })
+    assert.deepEqual(calls, ['get posts/a', 'getItems authors ada'])
+  })
+})
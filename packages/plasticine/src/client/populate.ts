@@ -0,0 +1,161 @@
+import type * as v from 'valibot'
+import type { CollectionsConfig, PlasticineConfig } from '../config/define-config.ts'
+import { getSchemaMetadata, walkSchema, type SchemaPath } from '../config/schema.ts'
+import type { ContentFetcher } from './client.ts'
+
+type Prettify<T> = { [K in keyof T]: T[K] } & {}
+
+type Output<TSchema> = TSchema extends v.GenericSchema ? v.InferOutput<TSchema> : never
+
+/**
+ * Collection a reference() schema points to, read from its metadata
+ */
+type ReferencedCollection<TSchema> = TSchema extends { readonly pipe: readonly unknown[] }
+  ? Extract<TSchema['pipe'][number], { type: 'metadata' }> extends {
+      metadata: { '~plasticine': { ui: 'reference'; collection: infer TCollection extends string } }
+    }
+    ? TCollection
+    : never
+  : never
+
+type PopulatedEntries<TEntries, TCollections extends CollectionsConfig> = Prettify<
+  {
+    [K in keyof TEntries as undefined extends Output<TEntries[K]> ? never : K]: PopulatedOutput<
+      TEntries[K],
+      TCollections
+    >
+  } & {
+    [K in keyof TEntries as undefined extends Output<TEntries[K]> ? K : never]?: PopulatedOutput<
+      TEntries[K],
+      TCollections
+    >
+  }
+>
+
+/**
+ * Output type of a schema with every reference replaced by its target document
+ * (or null when the target doesn't exist)
+ */
+export type PopulatedOutput<TSchema, TCollections extends CollectionsConfig> = [
+  ReferencedCollection<TSchema>,
+] extends [never]
+  ? TSchema extends {
+      type: 'optional' | 'exact_optional' | 'nullable' | 'nullish' | 'undefinedable'
+      wrapped: infer TWrapped
+    }
+    ? PopulatedOutput<TWrapped, TCollections> | Exclude<Output<TSchema>, Output<TWrapped>>
+    : TSchema extends { type: 'array'; item: infer TItem }
+      ? Array<PopulatedOutput<TItem, TCollections>>
+      : TSchema extends { entries: infer TEntries }
+        ? PopulatedEntries<TEntries, TCollections>
+        : Output<TSchema>
+  : ReferencedCollection<TSchema> extends keyof TCollections
+    ? Output<TCollections[ReferencedCollection<TSchema>]['schema']> | null
+    : Output<TSchema>
+
+/**
+ * Which references to resolve: `true` for all of them, or the top-level fields holding them
+ */
+export type PopulateOption<TOutput> = true | ReadonlyArray<keyof TOutput & string>
+
+/**
+ * Output type after populating the fields selected by TOption
+ */
+export type Populated<TOutput, TPopulated, TOption> = [TOption] extends [true]
+  ? TPopulated
+  : [TOption] extends [ReadonlyArray<infer K>]
+    ? Prettify<Omit<TOutput, K & keyof TOutput> & Pick<TPopulated, K & keyof TPopulated>>
+    : TOutput
+
+/**
+ * Set a value at a path inside nested objects and arrays
+ */
+function setAt(target: unknown, path: SchemaPath, value: unknown) {
+  const parent = path
+    .slice(0, -1)
+    .reduce<any>((node, key) => (node as Record<string | number, unknown>)[key], target)
+  parent[path[path.length - 1]] = value
+}
+
+/**
+ * Create a function that replaces reference ids in items with their target documents.
+ * References are collected from all items first, so every target is fetched only once -
+ * and each target collection in one call when the fetcher has `getItems`.
+ */
+export function createReferenceResolver(config: PlasticineConfig<any>, fetcher: ContentFetcher) {
+  /**
+   * Fetch and parse a referenced item, or null when it doesn't exist
+   */
+  const loadTarget = async (collection: string, id: string) => {
+    try {
+      return config.parseCollection(collection, await fetcher.getItem(collection, id))
+    } catch (error) {
+      if (await fetcher.hasItem(collection, id)) throw error
+      return null
+    }
+  }
+
+  /**
+   * Fetch and parse the referenced items of one collection, by id
+   */
+  const loadTargets = async (collection: string, ids: string[]) => {
+    if (!fetcher.getItems) {
+      return new Map(
+        await Promise.all(ids.map(async id => [id, await loadTarget(collection, id)] as const)),
+      )
+    }
+    const raw = await fetcher.getItems(collection, ids)
+    return new Map(
+      ids.map(id => [
+        id,
+        Object.hasOwn(raw, id) ? config.parseCollection(collection, raw[id]) : null,
+      ]),
+    )
+  }
+
+  return async function populate<T extends { data: unknown }>(
+    collection: string,
+    items: T[],
+    option: true | readonly string[],
+  ): Promise<T[]> {
+    const schema = config.getSchema(collection)
+    const references: Array<{ index: number; path: SchemaPath; target: string; id: string }> = []
+    // Referenced ids by target collection
+    const targets = new Map<string, Set<string>>()
+
+    items.forEach((item, index) =>
+      walkSchema(schema, item.data, (fieldSchema, value, path) => {
+        if (option !== true && !option.includes(String(path[0]))) return
+        const metadata = getSchemaMetadata(fieldSchema)
+        if (metadata.ui !== 'reference' || typeof value !== 'string') return
+
+        const target = metadata.collection as string
+        if (!targets.has(target)) targets.set(target, new Set())
+        targets.get(target)!.add(value)
+        references.push({ index, path, target, id: value })
+      }),
+    )
+
+    if (references.length === 0) return items
+
+    const resolved = new Map(
+      await Promise.all(
+        [...targets].map(
+          async ([target, ids]) => [target, await loadTargets(target, [...ids])] as const,
+        ),
+      ),
+    )
+
+    return items.map((item, index) => {
+      const itemReferences = references.filter(reference => reference.index === index)
+      if (itemReferences.length === 0) return item
+
+      // Replace ids in a copy, the root of a path is the item's data
+      const copy = { data: structuredClone(item.data) }
+      for (const { path, target, id } of itemReferences) {
+        setAt(copy, ['data', ...path], resolved.get(target)!.get(id))
+      }
+      return { ...item, data: copy.data }
+    })
+  }
+}
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { createQuery } from './query.ts'
+
+interface Post {
+  title: string
+  views: number
+  tags: string[]
+  publishedAt?: Date
+}
+
+const posts: Array<{ id: string; data: Post }> = [
+  {
+    id: 'a',
+    data: { title: 'Alpha', views: 10, tags: ['news'], publishedAt: new Date(2024, 0, 2) },
+  },
+  { id: 'b', data: { title: 'Beta', views: 30, tags: ['news', 'tech'] } },
+  { id: 'c', data: { title: 'Gamma', views: 20, tags: [], publishedAt: new Date(2024, 0, 1) } },
+  { id: 'd', data: { title: 'Delta 10', views: 20, tags: ['tech'] } },
+  { id: 'e', data: { title: 'Delta 9', views: 5, tags: ['news'] } },
+]
+
+const query = () => createQuery(async () => posts)
+const ids = (items: Array<{ id: string }>) => items.map(item => item.id)
+
+describe('createQuery', () => {
+  test('returns every item without a filter', async () => {
+    assert.deepEqual(ids(await query()), ['a', 'b', 'c', 'd', 'e'])
+  })
+
+  test('filters with operators and predicates', async () => {
+    assert.deepEqual(ids(await query().where('views', '>=', 20)), ['b', 'c', 'd'])
+    assert.deepEqual(ids(await query().where('views', '!=', 20)), ['a', 'b', 'e'])
+    assert.deepEqual(ids(await query().where('title', 'in', ['Beta', 'Gamma'])), ['b', 'c'])
+    assert.deepEqual(ids(await query().where('tags', 'contains', 'tech')), ['b', 'd'])
+    assert.deepEqual(ids(await query().where('title', 'contains', 'Delta')), ['d', 'e'])
+    assert.deepEqual(ids(await query().where(post => post.tags.length === 0)), ['c'])
+  })
+
+  test('compares dates and never matches missing values with ordering operators', async () => {
+    const since = new Date(2024, 0, 2)
+    assert.deepEqual(ids(await query().where('publishedAt', '<', since)), ['c'])
+    assert.deepEqual(ids(await query().where('publishedAt', '==', since)), ['a'])
+  })
+
+  test('sorts with tie-breakers, numbers in strings and missing values last', async () => {
+    assert.deepEqual(ids(await query().orderBy('views', 'desc').orderBy('title')), [
+      'b',
+      'd',
+      'c',
+      'a',
+      'e',
+    ])
+    assert.deepEqual(ids(await query().where('title', 'contains', 'Delta').orderBy('title')), [
+      'e',
+      'd',
+    ])
+    assert.deepEqual(ids(await query().orderBy('publishedAt')), ['c', 'a', 'b', 'd', 'e'])
+  })
+
+  test('paginates after filtering and sorting', async () => {
+    const page = query().orderBy('views').offset(1).limit(2)
+    assert.deepEqual(ids(await page), ['a', 'c'])
+    assert.equal(await page.count(), 5)
+    assert.equal((await query().orderBy('views', 'desc').first())?.id, 'b')
+    assert.equal(await query().where('views', '>', 100).first(), undefined)
+  })
+
+  test('selects fields', async () => {
+    assert.deepEqual(await query().where('views', '==', 30).select('title'), [
+      { id: 'b', data: { title: 'Beta' } },
+    ])
+  })
+
+  test('is immutable', async () => {
+    const base = query().where('views', '>', 5)
+    await base.limit(1)
+    assert.equal((await base).length, 4)
+  })
+})
@@ -0,0 +1,195 @@
+import { compareValues } from '../config/define-config.ts'
+
+export type QueryOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'contains'
+
+/**
+ * Value type accepted by an operator for a field of type TValue
+ */
+export type QueryValue<TValue, TOperator extends QueryOperator> = TOperator extends 'in'
+  ? ReadonlyArray<NonNullable<TValue>>
+  : TOperator extends 'contains'
+    ? NonNullable<TValue> extends ReadonlyArray<infer TElement>
+      ? TElement
+      : NonNullable<TValue> extends string
+        ? string
+        : never
+    : TValue
+
+/**
+ * Immutable, typed query over a collection - every method returns a new query.
+ * Await it to run: items are loaded with getAll(), then filtered, sorted and paginated.
+ *
+ * @example
+ * ```ts
+ * const posts = await content.posts
+ *   .query()
+ *   .where('draft', '==', false)
+ *   .orderBy('publishedAt', 'desc')
+ *   .limit(10)
+ *   .offset(20)
+ * ```
+ */
+export interface CollectionQuery<TOutput, TResult = TOutput> extends PromiseLike<
+  Array<{ id: string; data: TResult }>
+> {
+  /** Keep items whose field matches the value */
+  where<K extends keyof TOutput & string, TOperator extends QueryOperator>(
+    field: K,
+    operator: TOperator,
+    value: QueryValue<TOutput[K], TOperator>,
+  ): CollectionQuery<TOutput, TResult>
+
+  /** Keep items matching a predicate */
+  where(predicate: (data: TOutput) => boolean): CollectionQuery<TOutput, TResult>
+
+  /**
+   * Sort by a field - call again to add tie-breakers. Takes precedence over the collection's
+   * default sort, which still orders items that tie on every field.
+   */
+  orderBy<K extends keyof TOutput & string>(
+    field: K,
+    order?: 'asc' | 'desc',
+  ): CollectionQuery<TOutput, TResult>
+
+  /** Return at most this many items */
+  limit(count: number): CollectionQuery<TOutput, TResult>
+
+  /** Skip this many items */
+  offset(count: number): CollectionQuery<TOutput, TResult>
+
+  /** Only return these fields of each item */
+  select<K extends keyof TOutput & string>(
+    ...fields: K[]
+  ): CollectionQuery<TOutput, Pick<TOutput, K>>
+
+  /** Get the first matching item */
+  first(): Promise<{ id: string; data: TResult } | undefined>
+
+  /** Count matching items (ignores limit and offset) */
+  count(): Promise<number>
+}
+
+interface QueryState {
+  filters: Array<(data: Record<string, unknown>) => boolean>
+  orders: Array<{ field: string; order: 'asc' | 'desc' }>
+  limit?: number
+  offset: number
+  fields?: string[]
+}
+
+const normalize = (value: unknown) => (value instanceof Date ? value.getTime() : value)
+
+/**
+ * Check a field value against an operator and value
+ */
+function matches(fieldValue: unknown, operator: QueryOperator, value: unknown): boolean {
+  const a = normalize(fieldValue)
+  const b = normalize(value)
+
+  switch (operator) {
+    case '==':
+      return a === b
+    case '!=':
+      return a !== b
+    case 'in':
+      return (value as unknown[]).some(option => normalize(option) === a)
+    case 'contains':
+      if (Array.isArray(fieldValue)) return fieldValue.some(item => normalize(item) === b)
+      return typeof fieldValue === 'string' && fieldValue.includes(String(value))
+  }
+
+  // Ordering operators never match empty values
+  if (a === undefined || a === null) return false
+  const result = compareValues(a, b)
+  switch (operator) {
+    case '<':
+      return result < 0
+    case '<=':
+      return result <= 0
+    case '>':
+      return result > 0
+    case '>=':
+      return result >= 0
+  }
+}
+
+/**
+ * Create a query over items loaded by `load`
+ */
+export function createQuery<TOutput>(
+  load: () => Promise<Array<{ id: string; data: TOutput }>>,
+): CollectionQuery<TOutput> {
+  /**
+   * Load items and apply filters and sorting, without pagination
+   */
+  const run = async (state: QueryState) => {
+    const items = (await load()) as Array<{ id: string; data: Record<string, unknown> }>
+    const filtered = items.filter(item => state.filters.every(filter => filter(item.data)))
+    if (state.orders.length === 0) return filtered
+
+    return filtered.sort((a, b) => {
+      for (const { field, order } of state.orders) {
+        const result = compareValues(a.data[field], b.data[field], order)
+        if (result !== 0) return result
+      }
+      return 0
+    })
+  }
+
+  const project = (state: QueryState, item: { id: string; data: Record<string, unknown> }) => {
+    if (!state.fields) return item
+    const data = Object.fromEntries(state.fields.map(field => [field, item.data[field]]))
+    return { id: item.id, data }
+  }
+
+  const execute = async (state: QueryState) => {
+    const items = await run(state)
+    const end = state.limit === undefined ? undefined : state.offset + state.limit
+    return items.slice(state.offset, end).map(item => project(state, item))
+  }
+
+  const build = (state: QueryState): CollectionQuery<any, any> => ({
+    where(
+      fieldOrPredicate: string | ((data: any) => boolean),
+      operator?: QueryOperator,
+      value?: unknown,
+    ) {
+      const filter =
+        typeof fieldOrPredicate === 'function'
+          ? fieldOrPredicate
+          : (data: Record<string, unknown>) => matches(data[fieldOrPredicate], operator!, value)
+      return build({ ...state, filters: [...state.filters, filter] })
+    },
+
+    orderBy(field: string, order: 'asc' | 'desc' = 'asc') {
+      return build({ ...state, orders: [...state.orders, { field, order }] })
+    },
+
+    limit(count: number) {
+      return build({ ...state, limit: count })
+    },
+
+    offset(count: number) {
+      return build({ ...state, offset: count })
+    },
+
+    select(...fields: string[]) {
+      return build({ ...state, fields })
+    },
+
+    async first() {
+      const [item] = await execute({ ...state, limit: 1 })
+      return item
+    },
+
+    async count() {
+      return (await run(state)).length
+    },
+
+    then(onfulfilled, onrejected) {
+      return execute(state).then(onfulfilled, onrejected)
+    },
+  })
+
+  return build({ filters: [], orders: [], offset: 0 })
+}
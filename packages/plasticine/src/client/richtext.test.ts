@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import type { RichTextDocument } from '../config/richtext.ts'
+import { richTextToHTML, richTextToMarkdown, safeHref } from './richtext.ts'
+
+const link = (href: string): RichTextDocument => ({
+  type: 'doc',
+  children: [
+    { type: 'paragraph', children: [{ type: 'text', text: 'x', marks: [{ type: 'link', href }] }] },
+  ],
+})
+
+describe('safeHref', () => {
+  test('keeps web, mail and phone links and relative urls', () => {
+    for (const href of [
+      'https://example.com/a?b=c#d',
+      'http://example.com',
+      'mailto:a@example.com',
+      'tel:+123',
+      '/media/a.png',
+      'media/a b.png',
+      '#section',
+      '//example.com/a',
+      '',
+    ]) {
+      assert.equal(safeHref(href), href)
+    }
+  })
+
+  test('drops other schemes', () => {
+    for (const href of [
+      'javascript:alert(1)',
+      'JavaScript:alert(1)',
+      ' javascript:alert(1)',
+      'vbscript:msgbox(1)',
+      'data:text/html,<script>alert(1)</script>',
+      'file:///etc/passwd',
+    ]) {
+      assert.equal(safeHref(href), '#', href)
+    }
+  })
+
+  test('drops schemes hidden by control characters and whitespace', () => {
+    for (const href of [
+      'java\tscript:alert(1)',
+      'java\nscript:alert(1)',
+      'java\rscript:alert(1)',
+      '\x01javascript:alert(1)',
+      '\x00javascript:alert(1)',
+      'javascript\x7f:alert(1)',
+      '\x1f java\tscript:alert(1)',
+    ]) {
+      assert.equal(safeHref(href), '#', JSON.stringify(href))
+    }
+  })
+
+  test('drops urls that do not parse', () => {
+    assert.equal(safeHref('http://[invalid'), '#')
+  })
+
+  test('removes control characters from kept urls', () => {
+    assert.equal(safeHref('https://exa\tmple.com/\x01a'), 'https://example.com/a')
+  })
+})
+
+describe('richTextToHTML', () => {
+  test('renders marks and blocks with escaped text', () => {
+    const doc: RichTextDocument = {
+      type: 'doc',
+      children: [
+        { type: 'heading', level: 2, children: [{ type: 'text', text: 'A <b>' }] },
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'text', text: 'bold', marks: [{ type: 'link', href: '/a' }, { type: 'bold' }] },
+            { type: 'text', text: 'line\nbreak' },
+          ],
+        },
+        { type: 'code_block', text: '<div>', language: 'html' },
+      ],
+    }
+    assert.equal(
+      richTextToHTML(doc),
+      [
+        '<h2>A &lt;b&gt;</h2>',
+        '<p><a href="/a"><strong>bold</strong></a>line<br>break</p>',
+        '<pre><code class="language-html">&lt;div&gt;</code></pre>',
+      ].join('\n'),
+    )
+  })
+
+  test('never renders a script url', () => {
+    for (const href of [
+      'java\tscript:alert(1)',
+      '\x01javascript:alert(1)',
+      'javascript:alert(1)',
+    ]) {
+      assert.equal(richTextToHTML(link(href)), '<p><a href="#">x</a></p>')
+    }
+    const image: RichTextDocument = {
+      type: 'doc',
+      children: [{ type: 'image', src: 'java\tscript:alert(1)', alt: '"' }],
+    }
+    assert.equal(richTextToHTML(image), '<img src="#" alt="&quot;">')
+  })
+
+  test('loads images from imageSrc after sanitizing them', () => {
+    const doc = (src: string): RichTextDocument => ({
+      type: 'doc',
+      children: [{ type: 'image', src }],
+    })
+    const imageSrc = (src: string) => (src === '/a.png' ? 'blob:preview' : src)
+    assert.equal(richTextToHTML(doc('/a.png'), { imageSrc }), '<img src="blob:preview" alt="">')
+    assert.equal(richTextToHTML(doc('/b.png'), { imageSrc }), '<img src="/b.png" alt="">')
+    assert.equal(
+      richTextToHTML(doc('javascript:alert(1)'), { imageSrc: src => `${src}?preview` }),
+      '<img src="#?preview" alt="">',
+    )
+  })
+
+  test('sanitizes reference links', () => {
+    const doc: RichTextDocument = {
+      type: 'doc',
+      children: [
+        {
+          type: 'paragraph',
+          children: [{ type: 'reference', collection: 'posts', id: 'a', label: 'A' }],
+        },
+      ],
+    }
+    assert.equal(
+      richTextToHTML(doc, { referenceHref: () => 'java\nscript:alert(1)' }),
+      '<p><a href="#" data-reference="posts/a">A</a></p>',
+    )
+    assert.equal(richTextToHTML(doc), '<p><span data-reference="posts/a">A</span></p>')
+  })
+})
+
+describe('richTextToMarkdown', () => {
+  test('writes sanitized link targets', () => {
+    assert.equal(richTextToMarkdown(link('\x01javascript:alert(1)')), '[x](<#>)')
+    assert.equal(richTextToMarkdown(link('https://example.com')), '[x](<https://example.com>)')
+  })
+})
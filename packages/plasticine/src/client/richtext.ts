@@ -0,0 +1,233 @@
+import type {
+  RichTextBlock,
+  RichTextDocument,
+  RichTextInline,
+  RichTextMark,
+  RichTextReference,
+} from '../config/richtext.ts'
+
+export interface RichTextRenderOptions {
+  /** URL an inline reference links to - references without one render as plain text */
+  referenceHref?: (reference: RichTextReference) => string | undefined
+  /** URL an image is loaded from, given its (sanitized) `src` - HTML only, default: the `src` */
+  imageSrc?: (src: string) => string
+}
+
+const escapeHTML = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:']
+
+/**
+ * Drop link targets that would run script, like `javascript:` URLs. Browsers skip control
+ * characters, tabs and newlines in a scheme (`java\tscript:` still runs), so they're removed
+ * before the scheme is checked.
+ */
+export function safeHref(href: string): string {
+  const cleaned = href.replace(/[\x00-\x1f\x7f]/g, '').trim()
+  try {
+    // Relative urls resolve against the base, so they come out as http
+    const { protocol } = new URL(cleaned, 'http://localhost')
+    return SAFE_PROTOCOLS.includes(protocol) ? cleaned : '#'
+  } catch {
+    return '#'
+  }
+}
+
+const referenceText = (reference: RichTextReference) => reference.label || reference.id
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      HTML                                      */
+/*                                                                                */
+/**********************************************************************************/
+
+function markToHTML(mark: RichTextMark, html: string) {
+  switch (mark.type) {
+    case 'bold':
+      return `<strong>${html}</strong>`
+    case 'italic':
+      return `<em>${html}</em>`
+    case 'code':
+      return `<code>${html}</code>`
+    case 'link': {
+      const title = mark.title ? ` title="${escapeHTML(mark.title)}"` : ''
+      return `<a href="${escapeHTML(safeHref(mark.href))}"${title}>${html}</a>`
+    }
+  }
+}
+
+// Links wrap the other marks, code sits closest to the text
+const MARK_ORDER: Array<RichTextMark['type']> = ['code', 'italic', 'bold', 'link']
+
+function inlineToHTML(nodes: RichTextInline[], options: RichTextRenderOptions) {
+  return nodes
+    .map(node => {
+      if (node.type === 'reference') {
+        const attributes = `data-reference="${escapeHTML(`${node.collection}/${node.id}`)}"`
+        const text = escapeHTML(referenceText(node))
+        const href = options.referenceHref?.(node)
+        return href
+          ? `<a href="${escapeHTML(safeHref(href))}" ${attributes}>${text}</a>`
+          : `<span ${attributes}>${text}</span>`
+      }
+
+      const marks = [...(node.marks ?? [])].sort(
+        (a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type),
+      )
+      const text = escapeHTML(node.text).replace(/\n/g, '<br>')
+      return marks.reduce((html, mark) => markToHTML(mark, html), text)
+    })
+    .join('')
+}
+
+function blockToHTML(block: RichTextBlock, options: RichTextRenderOptions): string {
+  const blocks = (children: RichTextBlock[]) =>
+    children.map(child => blockToHTML(child, options)).join('')
+
+  switch (block.type) {
+    case 'paragraph':
+      return `<p>${inlineToHTML(block.children, options)}</p>`
+    case 'heading':
+      return `<h${block.level}>${inlineToHTML(block.children, options)}</h${block.level}>`
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul'
+      return `<${tag}>${block.items.map(item => `<li>${blocks(item.children)}</li>`).join('')}</${tag}>`
+    }
+    case 'blockquote':
+      return `<blockquote>${blocks(block.children)}</blockquote>`
+    case 'image': {
+      const title = block.title ? ` title="${escapeHTML(block.title)}"` : ''
+      const src = safeHref(block.src)
+      return `<img src="${escapeHTML(options.imageSrc?.(src) ?? src)}" alt="${escapeHTML(block.alt ?? '')}"${title}>`
+    }
+    case 'code_block': {
+      const language = block.language ? ` class="language-${escapeHTML(block.language)}"` : ''
+      return `<pre><code${language}>${escapeHTML(block.text)}</code></pre>`
+    }
+    case 'divider':
+      return '<hr>'
+  }
+}
+
+/**
+ * Render a rich text document to HTML. All text is escaped, so the output is safe to
+ * insert into a page.
+ */
+export function richTextToHTML(
+  doc: RichTextDocument | undefined,
+  options: RichTextRenderOptions = {},
+): string {
+  return (doc?.children ?? []).map(block => blockToHTML(block, options)).join('\n')
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                    Markdown                                    */
+/*                                                                                */
+/**********************************************************************************/
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1')
+
+const MARKDOWN_MARKS: Record<'bold' | 'italic', string> = {
+  bold: '**',
+  italic: '*',
+}
+
+function textToMarkdown(text: string, marks: RichTextMark[]) {
+  // Emphasis can't start or end with whitespace - keep it outside the markers
+  const [, before, inner, after] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!
+  if (!inner) return text
+
+  let markdown = escapeMarkdown(inner).replace(/\n/g, '  \n')
+  if (marks.some(mark => mark.type === 'code')) {
+    // Backslashes don't escape in code spans - fence with more backticks than the text has
+    const longest = Math.max(0, ...(inner.match(/`+/g) ?? []).map(run => run.length))
+    const fence = '`'.repeat(longest + 1)
+    const padding = inner.startsWith('`') || inner.endsWith('`') ? ' ' : ''
+    markdown = `${fence}${padding}${inner.replace(/\n/g, ' ')}${padding}${fence}`
+  }
+  for (const type of ['italic', 'bold'] as const) {
+    if (marks.some(mark => mark.type === type)) {
+      markdown = `${MARKDOWN_MARKS[type]}${markdown}${MARKDOWN_MARKS[type]}`
+    }
+  }
+
+  const link = marks.find(mark => mark.type === 'link')
+  if (link) {
+    const title = link.title ? ` "${link.title.replace(/"/g, '\\"')}"` : ''
+    markdown = `[${markdown}](<${safeHref(link.href)}>${title})`
+  }
+  return `${before}${markdown}${after}`
+}
+
+function inlineToMarkdown(nodes: RichTextInline[], options: RichTextRenderOptions) {
+  return nodes
+    .map(node => {
+      if (node.type === 'text') return textToMarkdown(node.text, node.marks ?? [])
+      const text = escapeMarkdown(referenceText(node))
+      const href = options.referenceHref?.(node)
+      return href ? `[${text}](<${safeHref(href)}>)` : text
+    })
+    .join('')
+}
+
+/**
+ * Indent every line but the first, for content nested under a list marker
+ */
+const indent = (text: string, width: number) => text.replace(/\n(?=.)/g, `\n${' '.repeat(width)}`)
+
+function blockToMarkdown(block: RichTextBlock, options: RichTextRenderOptions): string {
+  const blocks = (children: RichTextBlock[]) =>
+    children.map(child => blockToMarkdown(child, options)).join('\n\n')
+
+  switch (block.type) {
+    case 'paragraph':
+      return inlineToMarkdown(block.children, options).replace(
+        /^(#{1,6}\s|>|[-+*]\s|\d+[.)]\s)/,
+        '\\$1',
+      )
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${inlineToMarkdown(block.children, options)}`
+    case 'list':
+      return block.items
+        .map((item, index) => {
+          const marker = block.ordered ? `${index + 1}. ` : '- '
+          // Tight lists keep each item on one line, nested lists included
+          const content = item.children.map(child => blockToMarkdown(child, options)).join('\n')
+          return `${marker}${indent(content, marker.length)}`
+        })
+        .join('\n')
+    case 'blockquote':
+      return blocks(block.children)
+        .split('\n')
+        .map(line => (line ? `> ${line}` : '>'))
+        .join('\n')
+    case 'image': {
+      const title = block.title ? ` "${block.title.replace(/"/g, '\\"')}"` : ''
+      return `![${escapeMarkdown(block.alt ?? '')}](<${safeHref(block.src)}>${title})`
+    }
+    case 'code_block': {
+      const longest = Math.max(0, ...(block.text.match(/^`{3,}/gm) ?? []).map(run => run.length))
+      const fence = '`'.repeat(Math.max(3, longest + 1))
+      return `${fence}${block.language ?? ''}\n${block.text}\n${fence}`
+    }
+    case 'divider':
+      return '---'
+  }
+}
+
+/**
+ * Render a rich text document to Markdown (CommonMark)
+ */
+export function richTextToMarkdown(
+  doc: RichTextDocument | undefined,
+  options: RichTextRenderOptions = {},
+): string {
+  return (doc?.children ?? []).map(block => blockToMarkdown(block, options)).join('\n\n')
+}
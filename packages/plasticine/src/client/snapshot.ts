@@ -0,0 +1,104 @@
+import type { ContentBackend } from '../backend/types.ts'
+import type { CollectionsConfig, PlasticineConfig } from '../config/define-config.ts'
+import { createClient, type ContentFetcher, type PlasticineClient } from './client.ts'
+
+/**
+ * All content of a site in one object - item data by id, per collection.
+ * Singletons are stored under their own name as id.
+ */
+export interface ContentSnapshot {
+  collections: Record<string, Record<string, unknown>>
+}
+
+export interface SnapshotError {
+  collection: string
+  id: string
+  /** Item file, relative to the content directory */
+  file: string
+  message: string
+}
+
+/**
+ * Read every collection from a backend, migrating and validating each item
+ */
+export async function createSnapshot(
+  config: PlasticineConfig<any>,
+  content: ContentBackend,
+): Promise<{ snapshot: ContentSnapshot; errors: SnapshotError[] }> {
+  const snapshot: ContentSnapshot = { collections: {} }
+  const errors: SnapshotError[] = []
+
+  for (const collection of config.getCollections()) {
+    const items = await content.listCollection(collection)
+    const entries: Record<string, unknown> = {}
+
+    for (const item of items) {
+      try {
+        entries[item.id] = config.parseCollection(collection, item.data)
+      } catch (error) {
+        errors.push({
+          collection,
+          id: item.id,
+          file: config.getItemFile(collection, item.id),
+          message: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    snapshot.collections[collection] = entries
+  }
+
+  return { snapshot, errors }
+}
+
+/**
+ * Content fetcher that reads from a snapshot - no network calls
+ */
+export function createStaticFetcher(snapshot: ContentSnapshot): ContentFetcher {
+  const itemsOf = (collection: string) => snapshot.collections[collection] ?? {}
+
+  return {
+    async listItems(collection: string): Promise<string[]> {
+      return Object.keys(itemsOf(collection))
+    },
+
+    async getItem(collection: string, id: string): Promise<unknown> {
+      const items = itemsOf(collection)
+      if (!Object.hasOwn(items, id)) {
+        throw new Error(`Failed to get item ${collection}/${id}: not in snapshot`)
+      }
+      return items[id]
+    },
+
+    async hasItem(collection: string, id: string): Promise<boolean> {
+      return Object.hasOwn(itemsOf(collection), id)
+    },
+
+    async getItems(collection: string, ids: string[]): Promise<Record<string, unknown>> {
+      const items = itemsOf(collection)
+      return Object.fromEntries(
+        ids.filter(id => Object.hasOwn(items, id)).map(id => [id, items[id]]),
+      )
+    },
+  }
+}
+
+/**
+ * Create a type-safe client over a snapshot made with `plasticine snapshot`
+ *
+ * @example
+ * ```ts
+ * import { createStaticClient } from '@plasticine/core'
+ * import config from './plasticine.config'
+ * import snapshot from './content.snapshot.json'
+ *
+ * const content = createStaticClient(config, snapshot)
+ * const posts = await content.posts.getAll()
+ * ```
+ */
+export function createStaticClient<TCollections extends CollectionsConfig>(
+  config: PlasticineConfig<TCollections>,
+  snapshot: ContentSnapshot,
+): PlasticineClient<TCollections> {
+  return createClient(config, createStaticFetcher(snapshot))
+}
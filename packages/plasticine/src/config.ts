@@ -0,0 +1,11 @@
+// Config only, without the UI - for loading plasticine configs outside the browser
+export * from './config/collection.ts'
+export * from './config/define-config.ts'
+export * from './config/fields.ts'
+export * from './config/formats.ts'
+export * from './config/json-schema.ts'
+export * from './config/media.ts'
+export * from './config/richtext.ts'
+export * from './config/schema.ts'
+export * from './config/typegen.ts'
+export * from './config/validate.ts'
@@ -0,0 +1,44 @@
+import type * as v from 'valibot'
+import type { CollectionOptions, SingletonOptions, VersionedSchemaBase } from './define-config.ts'
+
+/**
+ * Attach collection-level options to a versioned schema
+ *
+ * @example
+ * ```ts
+ * export default defineConfig({
+ *   posts: collection(schema(object({ ... })), {
+ *     label: 'Blog posts',
+ *     title: 'title',
+ *     sort: { field: 'publishedAt', order: 'desc' },
+ *     path: '{year}/{slug}',
+ *     format: markdownFormat({ body: 'content' }),
+ *   }),
+ * })
+ * ```
+ */
+export function collection<T extends VersionedSchemaBase>(
+  versionedSchema: T,
+  options: CollectionOptions<v.InferOutput<T['schema']>>,
+): T & { options: CollectionOptions<v.InferOutput<T['schema']>> } {
+  return { ...versionedSchema, options }
+}
+
+/**
+ * Declare a singleton - one fixed file (site settings, navigation, ...) instead of a folder of items
+ *
+ * @example
+ * ```ts
+ * export default defineConfig({
+ *   settings: singleton(schema(object({ ... })), { path: 'settings' }),
+ * })
+ *
+ * const settings = await client.settings.get()
+ * ```
+ */
+export function singleton<T extends VersionedSchemaBase>(
+  versionedSchema: T,
+  options: SingletonOptions,
+): T & { options: SingletonOptions; singleton: true } {
+  return { ...versionedSchema, options, singleton: true }
+}
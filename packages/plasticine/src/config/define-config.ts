@@ -1,13 +1,76 @@
 import * as v from 'valibot'
+import type { ImageProcessingOptions } from './fields.ts'
+import { resolveFormat, type ContentFormat, type FormatOption } from './formats.ts'
+
+/** Default order of a collection's items */
+export interface CollectionSort<TData = Record<string, unknown>> {
+  field: keyof TData & string
+  /** Sort direction (default: 'asc') */
+  order?: 'asc' | 'desc'
+}
+
+/** Collection-level options, attached with collection() */
+export interface CollectionOptions<TData = Record<string, unknown>> {
+  /** Display name in the CMS (default: the capitalized collection key) */
+  label?: string
+  /** Short description shown above the item list */
+  description?: string
+  /** Field holding the item id, or a function generating it (default: 'slug', then 'id') */
+  id?: (keyof TData & string) | ((data: TData) => string)
+  /** Field shown as the item title (default: 'title', then 'name', then 'slug') */
+  title?: keyof TData & string
+  /** Default order of items in the CMS and client.getAll() */
+  sort?: CollectionSort<TData>
+  /**
+   * File path of new items relative to the collection folder, without extension (default: '{id}').
+   * Placeholders are `{id}`, data fields like `{slug}`, and `{year}`, `{month}`, `{day}` of the creation date.
+   */
+  path?: string
+  /** File format of the collection's items (default: 'json') */
+  format?: FormatOption
+}
+
+/** Options of a singleton, attached with singleton() */
+export interface SingletonOptions {
+  /** File path relative to the content directory, e.g. 'settings' or 'site/navigation.json' */
+  path: string
+  /** Display name in the CMS (default: the capitalized key) */
+  label?: string
+  /** Short description shown above the editor */
+  description?: string
+  /** File format (default: 'json') */
+  format?: FormatOption
+}
 
 /** Base type for versioned schema - used for constraints */
 export interface VersionedSchemaBase {
   schema: v.GenericSchema
-  parse(value: unknown): unknown
+  parse(value: unknown, from?: number): unknown
+  /** Number of the current version (default: 1) */
+  currentVersion?: number
+  /** Parse a value and migrate it to the given version */
+  parseAs?(version: number, value: unknown, from?: number): unknown
+  options?: CollectionOptions<any>
+  /** Set by singleton(): the entry is a single file instead of a folder of items */
+  singleton?: boolean
 }
 
 export type CollectionsConfig = Record<string, VersionedSchemaBase>
 
+export interface ConfigOptions {
+  /**
+   * Store the schema version in every saved item, under `_version` (or the given key).
+   * Stamped items are parsed straight from their version; unstamped ones are still detected
+   * by trying each schema version.
+   */
+  versionStamp?: boolean | string
+  /**
+   * Resize and re-encode uploaded images in the browser, e.g. `{ maxWidth: 2400, format: 'webp' }`.
+   * Applies to every upload - image() fields can override it.
+   */
+  images?: ImageProcessingOptions
+}
+
 export interface PlasticineConfig<TCollections extends CollectionsConfig = CollectionsConfig> {
   /** The raw collections config (for type inference) */
   readonly collections: TCollections
@@ -18,6 +81,29 @@ export interface PlasticineConfig<TCollections extends CollectionsConfig = Colle
     data: unknown,
   ): v.InferOutput<TCollections[K]['schema']>
 
+  /** Parse content data for a collection, migrating it up or down to the given version */
+  parseCollectionAs(
+    collection: keyof TCollections & string,
+    data: unknown,
+    version: number,
+  ): unknown
+
+  /** Get the number of a collection's current schema version */
+  getVersion(collection: keyof TCollections & string): number
+
+  /** Get the key items are stamped with their schema version under, if enabled */
+  getVersionKey(): string | undefined
+
+  /** Get the default processing of uploaded images */
+  getImageOptions(): ImageProcessingOptions
+
+  /** Add the version stamp to data before it's stored (returns data as is when not enabled) */
+  stampVersion(
+    collection: keyof TCollections & string,
+    data: Record<string, unknown>,
+    version?: number,
+  ): Record<string, unknown>
+
   /** Get current schema for a collection */
   getSchema<K extends keyof TCollections & string>(
     collection: K,
@@ -25,6 +111,79 @@ export interface PlasticineConfig<TCollections extends CollectionsConfig = Colle
 
   /** Get all collection names */
   getCollections(): Array<keyof TCollections & string>
+
+  /** Get the file format of a collection */
+  getFormat(collection: keyof TCollections & string): ContentFormat
+
+  /** Get the options a collection was declared with */
+  getOptions(collection: keyof TCollections & string): CollectionOptions
+
+  /** Get the display name of a collection */
+  getLabel(collection: keyof TCollections & string): string
+
+  /** Whether the entry is a singleton - a single file, with the collection key as its item id */
+  isSingleton(collection: keyof TCollections & string): boolean
+
+  /** Whether item ids contain folders (the path template has a '/') */
+  isNested(collection: keyof TCollections & string): boolean
+
+  /** Get the file of an item, relative to the content directory */
+  getItemFile(collection: keyof TCollections & string, id: string): string
+
+  /** Create the id of a new item - its file path without extension */
+  createItemId(collection: keyof TCollections & string, data: Record<string, unknown>): string
+
+  /** Get the display title of an item */
+  getItemTitle(
+    collection: keyof TCollections & string,
+    item: { id: string; data: Record<string, unknown> },
+  ): string
+
+  /** Sort items by the collection's default sort (returns a new array) */
+  sortItems<T extends { data: Record<string, unknown> }>(
+    collection: keyof TCollections & string,
+    items: T[],
+  ): T[]
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * Fill a path template like '{year}/{slug}' from item data
+ */
+function renderPath(template: string, data: Record<string, unknown>, id: string): string {
+  const now = new Date()
+  const dates: Record<string, string> = {
+    year: String(now.getFullYear()),
+    month: pad(now.getMonth() + 1),
+    day: pad(now.getDate()),
+  }
+
+  return template.replace(/\{(\w+)\}/g, (_, key: string) => {
+    const value = key === 'id' ? id : (data[key] ?? dates[key])
+    if (value === undefined || value === null || value === '') {
+      throw new Error(`Missing value for {${key}} in path template '${template}'`)
+    }
+    // Values must not introduce folders of their own
+    return String(value).replace(/[\\/]/g, '-')
+  })
+}
+
+/**
+ * Compare two field values for sorting - empty values always sort last
+ */
+export function compareValues(a: unknown, b: unknown, order: 'asc' | 'desc' = 'asc'): number {
+  if (a instanceof Date) a = a.getTime()
+  if (b instanceof Date) b = b.getTime()
+  if (a === b) return 0
+  if (a === undefined || a === null) return 1
+  if (b === undefined || b === null) return -1
+
+  const result =
+    typeof a === 'number' && typeof b === 'number'
+      ? a - b
+      : String(a).localeCompare(String(b), undefined, { numeric: true })
+  return order === 'desc' ? -result : result
 }
 
 /**
@@ -33,7 +192,34 @@ export interface PlasticineConfig<TCollections extends CollectionsConfig = Colle
  */
 export function defineConfig<TCollections extends CollectionsConfig>(
   collections: TCollections,
+  options: ConfigOptions = {},
 ): PlasticineConfig<TCollections> {
+  const formats = new Map<string, ContentFormat>()
+  const versionKey = options.versionStamp === true ? '_version' : options.versionStamp || undefined
+
+  /**
+   * Split the version stamp from stored data
+   */
+  const readStamp = (data: unknown): { data: unknown; version?: number } => {
+    if (!versionKey || !data || typeof data !== 'object' || !(versionKey in data)) {
+      return { data }
+    }
+    const { [versionKey]: version, ...rest } = data as Record<string, unknown>
+    return { data: rest, version: typeof version === 'number' ? version : undefined }
+  }
+
+  const getOptions = (collection: string): CollectionOptions =>
+    collections[collection]?.options ?? {}
+
+  const getFormat = (collection: string): ContentFormat => {
+    let format = formats.get(collection)
+    if (!format) {
+      format = resolveFormat(getOptions(collection).format)
+      formats.set(collection, format)
+    }
+    return format
+  }
+
   return {
     collections,
 
@@ -42,7 +228,38 @@ export function defineConfig<TCollections extends CollectionsConfig>(
       if (!versionedSchema) {
         throw new Error(`Unknown collection: ${String(collection)}`)
       }
-      return versionedSchema.parse(data)
+      const stamped = readStamp(data)
+      return versionedSchema.parse(stamped.data, stamped.version)
+    },
+
+    parseCollectionAs(collection, data, version) {
+      const versionedSchema = collections[collection]
+      if (!versionedSchema) {
+        throw new Error(`Unknown collection: ${String(collection)}`)
+      }
+      const stamped = readStamp(data)
+      if (!versionedSchema.parseAs) {
+        if (version !== 1) throw new Error(`${collection} has no version ${version}`)
+        return versionedSchema.parse(stamped.data, stamped.version)
+      }
+      return versionedSchema.parseAs(version, stamped.data, stamped.version)
+    },
+
+    getVersion(collection) {
+      return collections[collection]?.currentVersion ?? 1
+    },
+
+    getVersionKey() {
+      return versionKey
+    },
+
+    getImageOptions() {
+      return options.images ?? {}
+    },
+
+    stampVersion(collection, data, version) {
+      if (!versionKey) return data
+      return { [versionKey]: version ?? collections[collection]?.currentVersion ?? 1, ...data }
     },
 
     getSchema(collection) {
@@ -52,5 +269,60 @@ export function defineConfig<TCollections extends CollectionsConfig>(
     getCollections() {
       return Object.keys(collections) as Array<keyof TCollections & string>
     },
+
+    getFormat,
+
+    getOptions,
+
+    getLabel(collection) {
+      return getOptions(collection).label ?? collection.charAt(0).toUpperCase() + collection.slice(1)
+    },
+
+    isSingleton(collection) {
+      return !!collections[collection]?.singleton
+    },
+
+    isNested(collection) {
+      return !collections[collection]?.singleton && !!getOptions(collection).path?.includes('/')
+    },
+
+    getItemFile(collection, id) {
+      const { extension } = getFormat(collection)
+      if (!collections[collection]?.singleton) {
+        return `${collection}/${id}${extension}`
+      }
+      const path = getOptions(collection).path!.replace(/^\/+/, '')
+      return path.endsWith(extension) ? path : `${path}${extension}`
+    },
+
+    createItemId(collection, data) {
+      if (collections[collection]?.singleton) return collection
+      const { id: idOption, path = '{id}' } = getOptions(collection)
+      const value =
+        typeof idOption === 'function'
+          ? idOption(data)
+          : idOption
+            ? data[idOption]
+            : (data.slug ?? data.id)
+      const id =
+        (typeof value === 'string' && value) || typeof value === 'number'
+          ? String(value)
+          : Date.now().toString()
+      return renderPath(path, data, id)
+    },
+
+    getItemTitle(collection, { id, data }) {
+      const field = getOptions(collection).title
+      const value = field ? data[field] : (data.title ?? data.name ?? data.slug)
+      return typeof value === 'string' && value ? value : id
+    },
+
+    sortItems(collection, items) {
+      const { sort } = getOptions(collection)
+      if (!sort) return items
+      return [...items].sort((a, b) =>
+        compareValues(a.data[sort.field], b.data[sort.field], sort.order),
+      )
+    },
   }
 }
@@ -1,9 +1,11 @@
 import * as v from 'valibot'
+import { emptyRichText, richTextSchema, type RichTextDocument } from './richtext.ts'
 
 export type FieldUIType =
   | 'text'
   | 'textarea'
   | 'markdown'
+  | 'richtext'
   | 'number'
   | 'boolean'
   | 'date'
@@ -13,6 +15,7 @@ export type FieldUIType =
   | 'slug'
   | 'select'
   | 'reference'
+  | 'blocks'
 
 export interface FieldMetadata {
   ui: FieldUIType
@@ -111,7 +114,11 @@ export function textarea(options?: { label?: string; placeholder?: string }) {
 /**
  * Markdown editor field
  */
-export function markdown(options?: { label?: string; placeholder?: string }) {
+export function markdown(options?: {
+  label?: string
+  placeholder?: string
+  path?: string // Upload path for images, relative to media.path
+}) {
   return v.pipe(
     v.string(),
     v.metadata(
@@ -119,11 +126,43 @@ export function markdown(options?: { label?: string; placeholder?: string }) {
         ui: 'markdown' as const,
         label: options?.label,
         placeholder: options?.placeholder,
+        path: options?.path,
       }),
     ),
   )
 }
 
+/**
+ * Rich text (WYSIWYG) field, stored as a JSON document tree.
+ * Render it with `richTextToHTML` or `richTextToMarkdown`.
+ */
+export function richtext(options?: {
+  label?: string
+  placeholder?: string
+  /** Collections whose items can be referenced inline */
+  references?: string[]
+  path?: string // Upload path for images, relative to media.path
+}) {
+  return v.optional(
+    v.pipe(
+      v.custom<RichTextDocument>(
+        input => v.is(richTextSchema, input),
+        'Invalid rich text document',
+      ),
+      v.metadata(
+        meta({
+          ui: 'richtext' as const,
+          label: options?.label,
+          placeholder: options?.placeholder,
+          references: options?.references ?? [],
+          path: options?.path,
+        }),
+      ),
+    ),
+    emptyRichText,
+  )
+}
+
 /**
  * Number field
  */
@@ -207,22 +246,40 @@ export function slug(options?: { label?: string; placeholder?: string }) {
   )
 }
 
+/**
+ * How images are resized and re-encoded in the browser before they're uploaded
+ */
+export interface ImageProcessingOptions {
+  /** Scale larger images down to this width, keeping the aspect ratio */
+  maxWidth?: number
+  /** Scale larger images down to this height, keeping the aspect ratio */
+  maxHeight?: number
+  /** Re-encode to this format (default: keep the original format) */
+  format?: 'webp' | 'jpeg'
+  /** Encoder quality from 0 to 1 (default: 0.85) */
+  quality?: number
+}
+
 /**
  * Image field (stores URL/path)
  */
-export function image(options?: {
-  label?: string
-  accept?: string
-  path?: string // Upload path relative to media.path
-}) {
+export function image(
+  options?: {
+    label?: string
+    accept?: string
+    path?: string // Upload path relative to media.path
+  } & ImageProcessingOptions,
+) {
+  const { label, accept, path, ...processing } = options ?? {}
   return v.pipe(
     v.string(),
     v.metadata(
       meta({
         ui: 'image' as const,
-        label: options?.label,
-        accept: options?.accept || 'image/*',
-        path: options?.path,
+        label,
+        accept: accept || 'image/*',
+        path,
+        processing: Object.keys(processing).length > 0 ? processing : undefined,
       }),
     ),
   )
@@ -290,3 +347,47 @@ export function reference<T extends string>(
     ),
   )
 }
+
+type BlockEntries = Record<string, v.ObjectSchema<v.ObjectEntries, undefined>>
+
+/**
+ * Schema of one block in a `blocks()` field - its entries, tagged with its `type`
+ */
+export type BlockSchema<TBlocks extends BlockEntries> = {
+  [K in keyof TBlocks & string]: v.ObjectSchema<
+    { type: v.LiteralSchema<K, undefined> } & TBlocks[K]['entries'],
+    undefined
+  >
+}[keyof TBlocks & string]
+
+/**
+ * List of blocks of different types, to compose pages from sections.
+ * Each block is stored as `{ type, ...data }`, where `type` is its key in `blockSchemas`.
+ */
+export function blocks<TBlocks extends BlockEntries>(
+  blockSchemas: TBlocks,
+  options?: {
+    label?: string
+    /** Labels of the block types in the editor, by type */
+    labels?: { [K in keyof TBlocks]?: string }
+  },
+) {
+  const types = Object.keys(blockSchemas)
+  const variants = types.map(type =>
+    v.object({ type: v.literal(type), ...blockSchemas[type].entries }),
+  ) as BlockSchema<TBlocks>[]
+
+  return v.pipe(
+    v.array(v.variant('type', variants)),
+    v.metadata(
+      meta({
+        ui: 'blocks' as const,
+        label: options?.label,
+        blocks: types.map(type => ({
+          type,
+          label: options?.labels?.[type] ?? type.charAt(0).toUpperCase() + type.slice(1),
+        })),
+      }),
+    ),
+  )
+}
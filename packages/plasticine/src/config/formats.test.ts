@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { jsonFormat, markdownFormat, resolveFormat, tomlFormat, yamlFormat } from './formats.ts'
+
+const data = {
+  title: 'Hello: "world"',
+  count: 3,
+  draft: false,
+  tags: ['a', 'b'],
+  author: { name: 'Ada', links: [{ url: 'https://example.com' }] },
+}
+
+describe('formats', () => {
+  for (const format of [jsonFormat(), yamlFormat(), tomlFormat()]) {
+    test(`${format.extension} round trips`, () => {
+      assert.deepEqual(format.parse(format.stringify(data)), data)
+    })
+  }
+
+  test('drops undefined values and stores dates as strings', () => {
+    const date = new Date('2024-05-01T10:00:00.000Z')
+    for (const format of [yamlFormat(), tomlFormat()]) {
+      const text = format.stringify({ title: 'A', subtitle: undefined, date })
+      assert.deepEqual(format.parse(text), { title: 'A', date: date.toISOString() })
+    }
+  })
+
+  test('resolves names to serializers and rejects unknown ones', () => {
+    assert.equal(resolveFormat().extension, '.json')
+    assert.equal(resolveFormat('markdown').extension, '.md')
+    const custom = { ...jsonFormat(), extension: '.txt' }
+    assert.equal(resolveFormat(custom), custom)
+    assert.throws(() => resolveFormat('xml' as never), /Unknown content format: xml/)
+  })
+})
+
+describe('markdownFormat', () => {
+  const format = markdownFormat()
+
+  test('round trips frontmatter and body', () => {
+    const item = { ...data, body: '# Heading\n\nText with --- dashes\n' }
+    const text = format.stringify(item)
+    assert.match(text, /^---\n[\s\S]*\n---\n\n# Heading/)
+    assert.deepEqual(format.parse(text), item)
+  })
+
+  test('reads files without frontmatter as body only', () => {
+    assert.deepEqual(format.parse('Just text'), { body: 'Just text' })
+  })
+
+  test('reads windows line endings and empty frontmatter', () => {
+    assert.deepEqual(format.parse('---\r\ntitle: A\r\n---\r\n\r\nBody'), {
+      title: 'A',
+      body: 'Body',
+    })
+    assert.deepEqual(format.parse(format.stringify({ body: 'Body' })), { body: 'Body' })
+  })
+
+  test('maps a custom field to the body', () => {
+    const content = markdownFormat({ body: 'content' })
+    const item = { title: 'A', content: 'Body' }
+    assert.deepEqual(content.parse(content.stringify(item)), item)
+  })
+})
@@ -0,0 +1,102 @@
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml'
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+
+/**
+ * Serializer for content files - turns file text into item data and back
+ */
+export interface ContentFormat {
+  /** File extension, including the dot (e.g. '.md') */
+  extension: string
+  parse(text: string): Record<string, unknown>
+  stringify(data: Record<string, unknown>): string
+}
+
+export type FormatOption = 'json' | 'yaml' | 'toml' | 'markdown' | ContentFormat
+
+/**
+ * Normalize data to plain JSON values: drops undefined entries, turns dates into strings
+ */
+function toPlain(data: unknown): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(data ?? {}))
+}
+
+/**
+ * JSON files (default)
+ */
+export function jsonFormat(): ContentFormat {
+  return {
+    extension: '.json',
+    parse: text => JSON.parse(text),
+    stringify: data => JSON.stringify(data, null, 2),
+  }
+}
+
+/**
+ * YAML files
+ */
+export function yamlFormat(): ContentFormat {
+  return {
+    extension: '.yaml',
+    parse: text => toPlain(parseYaml(text)),
+    stringify: data => stringifyYaml(toPlain(data)),
+  }
+}
+
+/**
+ * TOML files
+ */
+export function tomlFormat(): ContentFormat {
+  return {
+    extension: '.toml',
+    parse: text => toPlain(parseToml(text)),
+    stringify: data => stringifyToml(toPlain(data)),
+  }
+}
+
+/**
+ * Markdown files with YAML frontmatter - one field holds the markdown body
+ */
+export function markdownFormat(options?: {
+  /** Field that maps to the markdown body (default: 'body') */
+  body?: string
+}): ContentFormat {
+  const body = options?.body || 'body'
+
+  return {
+    extension: '.md',
+    parse(text) {
+      const match = /^---\r?\n([\s\S]*?)\r?\n?---[ \t]*(?:\r?\n|$)/.exec(text)
+      if (!match) {
+        return { [body]: text }
+      }
+      const frontmatter = toPlain(parseYaml(match[1]))
+      const content = text.slice(match[0].length).replace(/^\r?\n/, '')
+      return { ...frontmatter, [body]: content }
+    },
+    stringify(data) {
+      const { [body]: content, ...frontmatter } = toPlain(data)
+      const yaml = Object.keys(frontmatter).length > 0 ? stringifyYaml(frontmatter) : ''
+      return `---\n${yaml}---\n\n${typeof content === 'string' ? content : ''}`
+    },
+  }
+}
+
+/**
+ * Resolve a format option to a serializer
+ */
+export function resolveFormat(format: FormatOption = 'json'): ContentFormat {
+  if (typeof format === 'object') return format
+
+  switch (format) {
+    case 'json':
+      return jsonFormat()
+    case 'yaml':
+      return yamlFormat()
+    case 'toml':
+      return tomlFormat()
+    case 'markdown':
+      return markdownFormat()
+    default:
+      throw new Error(`Unknown content format: ${String(format)}`)
+  }
+}
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import * as v from 'valibot'
+import { defineConfig } from './define-config.ts'
+import { richtext, text } from './fields.ts'
+import { generateJsonSchema, getCollectionJsonSchema, toJsonSchema } from './json-schema.ts'
+import { schema } from './schema.ts'
+
+const config = defineConfig({
+  posts: schema(v.object({ title: text(), body: richtext({ label: 'Body' }) })),
+  pages: schema(v.object({ title: text() })),
+})
+
+describe('toJsonSchema', () => {
+  test('describes rich text documents through shared definitions', () => {
+    const json = toJsonSchema(richtext({ label: 'Body' }))
+    assert.equal(json.$ref, '#/$defs/RichTextDocument')
+    assert.equal(json.title, 'Body')
+    assert.equal((json['x-plasticine'] as { ui: string }).ui, 'richtext')
+
+    const defs = json.$defs as Record<string, any>
+    assert.deepEqual(defs.RichTextDocument.required, ['type', 'children'])
+    assert.deepEqual(defs.RichTextDocument.properties.children.items, {
+      $ref: '#/$defs/RichTextBlock',
+    })
+    const types = defs.RichTextBlock.anyOf.map((block: any) => block.properties.type.const)
+    assert.deepEqual(types, [
+      'paragraph',
+      'heading',
+      'list',
+      'blockquote',
+      'image',
+      'code_block',
+      'divider',
+    ])
+    const quote = defs.RichTextBlock.anyOf[3]
+    assert.deepEqual(quote.properties.children.items, { $ref: '#/$defs/RichTextBlock' })
+  })
+
+  test('adds no definitions without rich text', () => {
+    assert.equal(toJsonSchema(v.object({ title: text() })).$defs, undefined)
+  })
+})
+
+describe('collection schemas', () => {
+  test('carry the definitions their fields refer to', () => {
+    const posts = getCollectionJsonSchema(config, 'posts') as Record<string, any>
+    assert.equal(posts.properties.body.$ref, '#/$defs/RichTextDocument')
+    assert.deepEqual(Object.keys(posts.$defs), ['RichTextDocument', 'RichTextBlock'])
+    assert.equal(getCollectionJsonSchema(config, 'pages').$defs, undefined)
+  })
+
+  test('share one set of definitions when combined', () => {
+    const defs = generateJsonSchema(config).$defs as Record<string, any>
+    assert.deepEqual(Object.keys(defs), ['RichTextDocument', 'RichTextBlock', 'posts', 'pages'])
+    assert.equal(defs.posts.$defs, undefined)
+    assert.equal(defs.posts.properties.body.$ref, '#/$defs/RichTextDocument')
+  })
+})
@@ -0,0 +1,214 @@
+import type * as v from 'valibot'
+import type { PlasticineConfig } from './define-config.ts'
+import { richTextBlockSchema, richTextSchema } from './richtext.ts'
+import { getSchemaMetadata } from './schema.ts'
+
+export type JsonSchema = { [key: string]: unknown }
+
+type SchemaNode = v.GenericSchema & {
+  wrapped?: v.GenericSchema
+  default?: unknown
+  entries?: Record<string, v.GenericSchema>
+  rest?: v.GenericSchema
+  item?: v.GenericSchema
+  items?: v.GenericSchema[]
+  options?: unknown[]
+  value?: v.GenericSchema
+  literal?: unknown
+  getter?: (input: unknown) => v.GenericSchema
+  pipe?: Array<{
+    kind: string
+    type: string
+    requirement?: unknown
+    title?: string
+    description?: string
+  }>
+}
+
+const FORMATS: Record<string, string> = {
+  iso_date: 'date',
+  iso_timestamp: 'date-time',
+  iso_time: 'time',
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+}
+
+/**
+ * Translate validations in a schema's pipe into JSON Schema keywords
+ */
+function applyPipe(node: SchemaNode, json: JsonSchema) {
+  const isArray = json.type === 'array'
+  for (const action of node.pipe ?? []) {
+    const { type, requirement } = action
+    if (FORMATS[type]) json.format = FORMATS[type]
+    else if (type === 'regex') json.pattern = (requirement as RegExp).source
+    else if (type === 'integer') json.type = 'integer'
+    else if (type === 'min_length') json[isArray ? 'minItems' : 'minLength'] = requirement
+    else if (type === 'max_length') json[isArray ? 'maxItems' : 'maxLength'] = requirement
+    else if (type === 'min_value') json.minimum = requirement
+    else if (type === 'max_value') json.maximum = requirement
+  }
+  return json
+}
+
+/**
+ * Add a field's label and description, and its `~plasticine` metadata as `x-plasticine`
+ */
+function annotate(node: SchemaNode, json: JsonSchema) {
+  for (const action of node.pipe ?? []) {
+    if (action.type === 'title') json.title = action.title
+    if (action.type === 'description') json.description = action.description
+  }
+
+  const { label, description, ...metadata } = getSchemaMetadata(node)
+  if (typeof label === 'string') json.title = label
+  if (typeof description === 'string') json.description = description
+  if (typeof metadata.ui === 'string') {
+    json['x-plasticine'] = JSON.parse(JSON.stringify({ label, description, ...metadata }))
+  }
+  return json
+}
+
+/**
+ * Convert a valibot schema to JSON Schema (draft 2020-12) describing content files, with
+ * field labels and descriptions for editor hints.
+ * Parts that can't be expressed in JSON, like transforms and dates, accept any value.
+ */
+export function toJsonSchema(schema: v.GenericSchema): JsonSchema {
+  const json = fieldSchema(schema)
+  // Rich text nests, so its parts are definitions the fields refer to
+  return JSON.stringify(json).includes('"#/$defs/RichText')
+    ? { ...json, $defs: richTextDefs() }
+    : json
+}
+
+function fieldSchema(schema: v.GenericSchema): JsonSchema {
+  const node = schema as SchemaNode
+  // richtext() checks its value in a custom validation, so its shape comes from richTextSchema
+  const json =
+    node.type === 'custom' && getSchemaMetadata(node).ui === 'richtext'
+      ? { $ref: '#/$defs/RichTextDocument' }
+      : convert(node)
+  // Metadata sits in pipes, on the field or on a wrapper around it
+  return node.pipe ? annotate(node, json) : json
+}
+
+function richTextDefs(): Record<string, JsonSchema> {
+  const block = (richTextBlockSchema as SchemaNode).getter!(undefined)
+  return { RichTextDocument: fieldSchema(richTextSchema), RichTextBlock: fieldSchema(block) }
+}
+
+function convert(node: SchemaNode): JsonSchema {
+  switch (node.type) {
+    case 'optional':
+    case 'exact_optional':
+    case 'undefinedable': {
+      const json = fieldSchema(node.wrapped!)
+      return node.default === undefined || typeof node.default === 'function'
+        ? json
+        : { ...json, default: node.default }
+    }
+    case 'nullable':
+    case 'nullish':
+      return { anyOf: [fieldSchema(node.wrapped!), { type: 'null' }] }
+    case 'non_optional':
+    case 'non_nullable':
+    case 'non_nullish':
+      return fieldSchema(node.wrapped!)
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'null':
+      return applyPipe(node, { type: node.type })
+    case 'literal':
+      return { const: node.literal }
+    case 'picklist':
+    case 'enum':
+      return { enum: node.options }
+    case 'array':
+      return applyPipe(node, { type: 'array', items: fieldSchema(node.item!) })
+    case 'tuple':
+    case 'loose_tuple':
+    case 'strict_tuple':
+    case 'tuple_with_rest':
+      return {
+        type: 'array',
+        prefixItems: (node.items ?? []).map(fieldSchema),
+        items:
+          node.type === 'tuple_with_rest' ? fieldSchema(node.rest!) : node.type === 'loose_tuple',
+      }
+    case 'record':
+      return { type: 'object', additionalProperties: fieldSchema(node.value!) }
+    case 'lazy':
+      return node === richTextBlockSchema ? { $ref: '#/$defs/RichTextBlock' } : {}
+    case 'union':
+    case 'variant':
+      return { anyOf: (node.options as v.GenericSchema[]).map(fieldSchema) }
+    case 'intersect':
+      return { allOf: (node.options as v.GenericSchema[]).map(fieldSchema) }
+    case 'object':
+    case 'loose_object':
+    case 'strict_object':
+    case 'object_with_rest': {
+      const entries = Object.entries(node.entries ?? {})
+      const required = entries
+        .filter(([, entry]) => {
+          const { type } = entry as SchemaNode
+          return !['optional', 'exact_optional', 'undefinedable', 'nullish'].includes(type)
+        })
+        .map(([key]) => key)
+
+      return {
+        type: 'object',
+        properties: Object.fromEntries(entries.map(([key, entry]) => [key, fieldSchema(entry)])),
+        ...(required.length > 0 && { required }),
+        // Unknown keys are dropped when parsing - flag them, they're most likely typos
+        additionalProperties:
+          node.type === 'object_with_rest' ? fieldSchema(node.rest!) : node.type === 'loose_object',
+      }
+    }
+    default:
+      return {}
+  }
+}
+
+/**
+ * JSON Schema of an item file in a collection, at the collection's current version
+ */
+export function getCollectionJsonSchema(
+  config: PlasticineConfig<any>,
+  collection: string,
+): JsonSchema {
+  const { description } = config.getOptions(collection)
+  const json = toJsonSchema(config.getSchema(collection))
+
+  // Stored items may carry their schema version
+  const versionKey = config.getVersionKey()
+  if (versionKey && json.properties) {
+    json.properties = {
+      [versionKey]: { type: 'integer', minimum: 1, maximum: config.getVersion(collection) },
+      ...json.properties,
+    }
+  }
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: config.getLabel(collection),
+    ...(description && { description }),
+    ...json,
+  }
+}
+
+/**
+ * JSON Schema of every collection's current version, under `$defs`
+ */
+export function generateJsonSchema(config: PlasticineConfig<any>): JsonSchema {
+  const defs: Record<string, JsonSchema> = {}
+  for (const name of config.getCollections()) {
+    // Shared definitions move to the root, where their refs point
+    const { $schema, $defs, ...schema } = getCollectionJsonSchema(config, name)
+    Object.assign(defs, $defs, { [name]: schema })
+  }
+  return { $schema: 'https://json-schema.org/draft/2020-12/schema', $defs: defs }
+}
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import * as v from 'valibot'
+import { image, markdown, richtext } from './fields.ts'
+import {
+  findMediaReferences,
+  findUnusedMedia,
+  isMediaFileUrl,
+  replaceMediaReferences,
+} from './media.ts'
+
+const file = {
+  path: 'content/uploads/covers/cat.png',
+  url: 'https://cdn.example.com/content/uploads/covers/cat.png',
+}
+const raw = 'https://raw.githubusercontent.com/owner/repo/main/content/uploads/covers/cat.png'
+
+const schema = v.object({
+  cover: v.optional(image()),
+  gallery: v.array(v.object({ src: image() })),
+  body: markdown(),
+  content: richtext(),
+})
+
+describe('isMediaFileUrl', () => {
+  test('matches the file url and urls ending with its path', () => {
+    assert.ok(isMediaFileUrl(file.url, file))
+    assert.ok(isMediaFileUrl(raw, file))
+    assert.ok(isMediaFileUrl('/content/uploads/covers/cat.png?v=2#top', file))
+    assert.ok(isMediaFileUrl('content/uploads/covers/cat.png', file))
+    assert.ok(isMediaFileUrl('/content/uploads/covers/c%61t.png', file))
+  })
+
+  test('does not match other files', () => {
+    assert.ok(!isMediaFileUrl('https://cdn.example.com/content/uploads/cat.png', file))
+    assert.ok(!isMediaFileUrl('https://cdn.example.com/other-content/uploads/covers/cat.png', file))
+    assert.ok(!isMediaFileUrl('/content/uploads/covers/cat.png.bak', file))
+  })
+})
+
+describe('findUnusedMedia', () => {
+  test('uses the same rule', () => {
+    const other = { path: 'content/uploads/dog.png', url: '/content/uploads/dog.png' }
+    assert.deepEqual(findUnusedMedia([file, other], [raw]), [other])
+    assert.deepEqual(findUnusedMedia([file, other], []), [file, other])
+  })
+})
+
+describe('media references', () => {
+  const post = {
+    cover: raw,
+    gallery: [{ src: file.url }, { src: '/other.png' }],
+    body: `![Cat](${raw} "A cat") and [download](<${file.url}>)`,
+    content: {
+      type: 'doc' as const,
+      children: [
+        { type: 'image' as const, src: raw },
+        { type: 'paragraph' as const, children: [{ type: 'text' as const, text: 'After' }] },
+      ],
+    },
+  }
+
+  test('finds urls at any depth', () => {
+    assert.deepEqual(
+      findMediaReferences(schema, post).map(({ path, kind }) => `${kind}:${path.join('.')}`),
+      [
+        'field:cover',
+        'field:gallery.0.src',
+        'field:gallery.1.src',
+        'markdown:body',
+        'markdown:body',
+        'richtext:content.children.0.src',
+      ],
+    )
+  })
+
+  test('rewrites every url of a moved file', () => {
+    const moved = '/content/uploads/cats/cat.png'
+    const urls = new Map([
+      [raw, moved],
+      [file.url, moved],
+    ])
+    const result = replaceMediaReferences(schema, post, urls)
+    assert.equal(result.cover, moved)
+    assert.deepEqual(result.gallery, [{ src: moved }, { src: '/other.png' }])
+    assert.equal(result.body, `![Cat](${moved} "A cat") and [download](<${moved}>)`)
+    assert.equal(
+      result.content.children[0].type === 'image' && result.content.children[0].src,
+      moved,
+    )
+    assert.equal(post.cover, raw)
+  })
+
+  test('removes references to a deleted file', () => {
+    const urls = new Map([
+      [raw, undefined],
+      [file.url, undefined],
+    ])
+    const result = replaceMediaReferences(schema, post, urls)
+    assert.equal(result.cover, undefined)
+    assert.deepEqual(result.gallery, [{ src: '' }, { src: '/other.png' }])
+    assert.equal(result.body, ' and download')
+    assert.deepEqual(result.content.children, [post.content.children[1]])
+  })
+})
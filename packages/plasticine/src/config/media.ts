@@ -0,0 +1,194 @@
+import * as v from 'valibot'
+import type { RichTextBlock } from './richtext.ts'
+import { getSchemaMetadata, walkSchema, type SchemaPath } from './schema.ts'
+
+export interface MediaReference {
+  /**
+   * Where the url is: an image()/file() field like `images.3.src`, the `src` of an image in a
+   * richtext() document like `body.children.2.src`, or a markdown() field holding it in its text
+   */
+  path: SchemaPath
+  url: string
+  kind: 'field' | 'richtext' | 'markdown'
+}
+
+// Link and image destinations - `](url`, `](<url>` - and src/href attributes of inline HTML
+const MARKDOWN_URL = /(\]\(\s*<?)([^\s<>()]+)|(\b(?:src|href)=["'])([^"']+)/g
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Markdown images and links whose destination is `url`, with an optional title
+const markdownLink = (url: string) =>
+  new RegExp(
+    `(!?)(\\[([^\\]]*)\\]\\(\\s*<?)${escapeRegExp(url)}(>?(?:\\s+(?:"[^"]*"|'[^']*'))?\\s*\\))`,
+    'g',
+  )
+
+// src/href attributes of inline HTML pointing at `url`
+const htmlAttribute = (url: string) =>
+  new RegExp(`(\\b(?:src|href)=["'])${escapeRegExp(url)}(["'])`, 'g')
+
+/**
+ * Urls linked or embedded in a markdown text
+ */
+export function markdownUrls(markdown: string): string[] {
+  return [...markdown.matchAll(MARKDOWN_URL)].map(match => match[2] ?? match[4])
+}
+
+function richTextImages(blocks: RichTextBlock[], path: SchemaPath, out: MediaReference[]) {
+  blocks.forEach((block, index) => {
+    const blockPath = [...path, index]
+    if (block.type === 'image' && block.src) {
+      out.push({ path: [...blockPath, 'src'], url: block.src, kind: 'richtext' })
+    } else if (block.type === 'blockquote') {
+      richTextImages(block.children, [...blockPath, 'children'], out)
+    } else if (block.type === 'list') {
+      block.items.forEach((item, itemIndex) =>
+        richTextImages(item.children, [...blockPath, 'items', itemIndex, 'children'], out),
+      )
+    }
+  })
+}
+
+/**
+ * Find every media url a value uses, at any depth of its schema
+ */
+export function findMediaReferences(schema: v.GenericSchema, data: unknown): MediaReference[] {
+  const references: MediaReference[] = []
+
+  walkSchema(schema, data, (node, value, path) => {
+    const { ui } = getSchemaMetadata(node)
+    if ((ui === 'image' || ui === 'file') && typeof value === 'string' && value) {
+      references.push({ path, url: value, kind: 'field' })
+    } else if (ui === 'richtext' && Array.isArray((value as { children?: unknown })?.children)) {
+      richTextImages(
+        (value as { children: RichTextBlock[] }).children,
+        [...path, 'children'],
+        references,
+      )
+    } else if (ui === 'markdown' && typeof value === 'string') {
+      for (const url of markdownUrls(value)) references.push({ path, url, kind: 'markdown' })
+    }
+  })
+
+  return references
+}
+
+/**
+ * Copy a value with the value at `path` replaced, leaving the original untouched
+ */
+function updateAt(value: unknown, path: SchemaPath, update: (value: unknown) => unknown): unknown {
+  if (path.length === 0) return update(value)
+  const [key, ...rest] = path
+  const copy = (Array.isArray(value) ? [...value] : { ...(value as object) }) as Record<
+    string | number,
+    unknown
+  >
+  copy[key] = updateAt(copy[key], rest, update)
+  return copy
+}
+
+/**
+ * Point markdown links at new urls - images of removed urls are dropped, links keep their text.
+ * Inline HTML is only rewritten for moves.
+ */
+function replaceMarkdownUrls(markdown: string, urls: Map<string, string | undefined>) {
+  for (const [url, replacement] of urls) {
+    markdown = markdown.replace(
+      markdownLink(url),
+      (_, image: string, open: string, text: string, close: string) => {
+        if (replacement !== undefined) return `${image}${open}${replacement}${close}`
+        return image ? '' : text
+      },
+    )
+    if (replacement !== undefined) {
+      markdown = markdown.replace(htmlAttribute(url), `$1${replacement.replace(/\$/g, '$$$$')}$2`)
+    }
+  }
+  return markdown
+}
+
+/**
+ * Replace media urls in a value (`undefined` removes the reference), returning the new value.
+ * Fields are unset - or emptied when they're required - and rich text images are removed.
+ */
+export function replaceMediaReferences<T>(
+  schema: v.GenericSchema,
+  data: T,
+  urls: Map<string, string | undefined>,
+): T {
+  const references = findMediaReferences(schema, data).filter(reference => urls.has(reference.url))
+  let result: unknown = data
+  const cleared = new Set<string>()
+  const markdownFields = new Set<string>()
+
+  // Last to first, so removing a rich text image doesn't shift the ones before it
+  for (const { path, url, kind } of references.reverse()) {
+    const replacement = urls.get(url)
+    if (kind === 'markdown') {
+      // A markdown field is rewritten once, for every url in it
+      if (markdownFields.has(path.join('.'))) continue
+      markdownFields.add(path.join('.'))
+      result = updateAt(result, path, text => replaceMarkdownUrls(text as string, urls))
+    } else if (replacement !== undefined) {
+      result = updateAt(result, path, () => replacement)
+    } else if (kind === 'richtext') {
+      const index = path[path.length - 2] as number
+      result = updateAt(result, path.slice(0, -2), blocks =>
+        (blocks as unknown[]).filter((_, i) => i !== index),
+      )
+    } else {
+      cleared.add(path.join('.'))
+      result = updateAt(result, path, () => undefined)
+    }
+  }
+
+  // Required fields can't be unset - empty them instead
+  if (cleared.size > 0) {
+    for (const issue of v.safeParse(schema, result).issues ?? []) {
+      const path = (issue.path ?? []).map(item => item.key as string | number)
+      if (cleared.has(path.join('.'))) result = updateAt(result, path, () => '')
+    }
+  }
+
+  return result as T
+}
+
+// Referenced urls without query string or hash, decoded like the repo paths they point at
+function urlPath(url: string) {
+  const path = url.replace(/[?#].*$/, '')
+  try {
+    return decodeURI(path)
+  } catch {
+    return path
+  }
+}
+
+/**
+ * Whether a referenced url points at a media file: it's the file's own url, or it ends with the
+ * file's repo path - content written with another media url (like the dev server's) still counts
+ */
+export function isMediaFileUrl(url: string, file: { path: string; url: string }): boolean {
+  const path = urlPath(url)
+  return path === urlPath(file.url) || path === file.path || path.endsWith(`/${file.path}`)
+}
+
+/**
+ * Media files none of the urls point at, matched with isMediaFileUrl
+ */
+export function findUnusedMedia<T extends { path: string; url: string }>(
+  files: T[],
+  urls: Iterable<string>,
+): T[] {
+  // Referenced urls by file name, so each file is only compared with urls that can match it
+  const byName = new Map<string, string[]>()
+  for (const url of urls) {
+    const name = urlPath(url).split('/').pop()!
+    byName.set(name, [...(byName.get(name) ?? []), url])
+  }
+
+  return files.filter(file => {
+    const candidates = byName.get(file.path.split('/').pop()!) ?? []
+    return !candidates.some(url => isMediaFileUrl(url, file))
+  })
+}
@@ -0,0 +1,186 @@
+import * as v from 'valibot'
+
+/**
+ * Formatting applied to a run of text
+ */
+export type RichTextMark =
+  | { type: 'bold' }
+  | { type: 'italic' }
+  | { type: 'code' }
+  | { type: 'link'; href: string; title?: string }
+
+export interface RichTextText {
+  type: 'text'
+  text: string
+  marks?: RichTextMark[]
+}
+
+/**
+ * Inline reference to an item of another collection
+ */
+export interface RichTextReference {
+  type: 'reference'
+  collection: string
+  id: string
+  /** Text shown for the reference, as it was when inserted */
+  label?: string
+}
+
+export type RichTextInline = RichTextText | RichTextReference
+
+export interface RichTextParagraph {
+  type: 'paragraph'
+  children: RichTextInline[]
+}
+
+export interface RichTextHeading {
+  type: 'heading'
+  level: 1 | 2 | 3 | 4 | 5 | 6
+  children: RichTextInline[]
+}
+
+export interface RichTextList {
+  type: 'list'
+  ordered: boolean
+  items: RichTextListItem[]
+}
+
+export interface RichTextListItem {
+  type: 'list_item'
+  /** Paragraphs and nested lists */
+  children: RichTextBlock[]
+}
+
+export interface RichTextQuote {
+  type: 'blockquote'
+  children: RichTextBlock[]
+}
+
+/**
+ * Image, usually from the media library
+ */
+export interface RichTextImage {
+  type: 'image'
+  src: string
+  alt?: string
+  title?: string
+}
+
+export interface RichTextCodeBlock {
+  type: 'code_block'
+  language?: string
+  text: string
+}
+
+export interface RichTextDivider {
+  type: 'divider'
+}
+
+export type RichTextBlock =
+  | RichTextParagraph
+  | RichTextHeading
+  | RichTextList
+  | RichTextQuote
+  | RichTextImage
+  | RichTextCodeBlock
+  | RichTextDivider
+
+/**
+ * Root of a rich text value - a portable JSON tree that can be rendered to HTML or Markdown
+ */
+export interface RichTextDocument {
+  type: 'doc'
+  children: RichTextBlock[]
+}
+
+const markSchema = v.variant('type', [
+  v.object({ type: v.literal('bold') }),
+  v.object({ type: v.literal('italic') }),
+  v.object({ type: v.literal('code') }),
+  v.object({ type: v.literal('link'), href: v.string(), title: v.optional(v.string()) }),
+])
+
+const inlineSchema = v.variant('type', [
+  v.object({
+    type: v.literal('text'),
+    text: v.string(),
+    marks: v.optional(v.array(markSchema)),
+  }),
+  v.object({
+    type: v.literal('reference'),
+    collection: v.string(),
+    id: v.string(),
+    label: v.optional(v.string()),
+  }),
+])
+
+/**
+ * Schema of a rich text block - lazy, as lists and quotes contain blocks
+ */
+export const richTextBlockSchema: v.GenericSchema<RichTextBlock> = v.lazy(() =>
+  v.variant('type', [
+    v.object({ type: v.literal('paragraph'), children: v.array(inlineSchema) }),
+    v.object({
+      type: v.literal('heading'),
+      level: v.picklist([1, 2, 3, 4, 5, 6]),
+      children: v.array(inlineSchema),
+    }),
+    v.object({
+      type: v.literal('list'),
+      ordered: v.boolean(),
+      items: v.array(
+        v.object({ type: v.literal('list_item'), children: v.array(richTextBlockSchema) }),
+      ),
+    }),
+    v.object({ type: v.literal('blockquote'), children: v.array(richTextBlockSchema) }),
+    v.object({
+      type: v.literal('image'),
+      src: v.string(),
+      alt: v.optional(v.string()),
+      title: v.optional(v.string()),
+    }),
+    v.object({ type: v.literal('code_block'), language: v.optional(v.string()), text: v.string() }),
+    v.object({ type: v.literal('divider') }),
+  ]),
+)
+
+/**
+ * Schema of a rich text document
+ */
+export const richTextSchema: v.GenericSchema<RichTextDocument> = v.object({
+  type: v.literal('doc'),
+  children: v.array(richTextBlockSchema),
+})
+
+/**
+ * Merge neighbouring text with the same marks, and trim whitespace at the edges of a block
+ */
+export function normalizeRichTextInline(nodes: RichTextInline[]): RichTextInline[] {
+  const merged: RichTextInline[] = []
+  for (const node of nodes) {
+    const last = merged[merged.length - 1]
+    if (
+      node.type === 'text' &&
+      last?.type === 'text' &&
+      JSON.stringify(last.marks ?? []) === JSON.stringify(node.marks ?? [])
+    ) {
+      merged[merged.length - 1] = { ...last, text: last.text + node.text }
+    } else {
+      merged.push(node)
+    }
+  }
+
+  const first = merged[0]
+  if (first?.type === 'text') merged[0] = { ...first, text: first.text.trimStart() }
+  const last = merged[merged.length - 1]
+  if (last?.type === 'text') merged[merged.length - 1] = { ...last, text: last.text.trimEnd() }
+
+  return merged.filter(node => node.type !== 'text' || node.text !== '')
+}
+
+/**
+ * Document with no content
+ */
+export function emptyRichText(): RichTextDocument {
+  return { type: 'doc', children: [] }
+}
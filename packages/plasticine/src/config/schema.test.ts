@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import * as v from 'valibot'
+import { blocks, text } from './fields.ts'
+import { getSchemaVariants } from './schema.ts'
+
+describe('getSchemaVariants', () => {
+  const field = blocks({
+    hero: v.object({ title: text() }),
+    quote: v.object({ text: text() }),
+  })
+  const types = (schema: v.GenericSchema) =>
+    getSchemaVariants(schema).map(variant => (variant as any).entries.type.literal)
+
+  test('lists the block schemas', () => {
+    assert.deepEqual(types(field), ['hero', 'quote'])
+  })
+
+  test('sees through optional and nullable', () => {
+    assert.deepEqual(types(v.optional(field)), ['hero', 'quote'])
+    assert.deepEqual(types(v.nullable(v.optional(field))), ['hero', 'quote'])
+  })
+
+  test('is empty for other schemas', () => {
+    assert.deepEqual(getSchemaVariants(v.array(v.string())), [])
+    assert.deepEqual(getSchemaVariants(text()), [])
+  })
+})
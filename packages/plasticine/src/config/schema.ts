@@ -14,7 +14,7 @@ type Prettify<T> = { [K in keyof T]: T[K] } & {}
  */
 export type Infer<T extends { schema: v.GenericSchema }> = v.InferOutput<T['schema']>
 
-class SchemaError<
+export class SchemaError<
   TSchema extends
   | v.BaseSchema<unknown, unknown, v.BaseIssue<unknown>>
   | v.BaseSchemaAsync<unknown, unknown, v.BaseIssue<unknown>>,
@@ -33,6 +33,8 @@ interface Version<
 > {
   schema: T2
   transform(value: v.InferInput<T1>): v.InferInput<T2>
+  /** Reverse of transform, from the next version back to this one */
+  down?(value: any): v.InferInput<T2>
 }
 
 export interface VersionedSchema<
@@ -42,16 +44,32 @@ export interface VersionedSchema<
   /** The current (latest) schema */
   schema: TSchema
 
-  /** Parse value, migrating from older versions if needed */
-  parse(value: v.InferInput<TVersions[number]['schema'] | TSchema>): v.InferOutput<TSchema>
+  /** Number of the current version - the initial schema is version 1 */
+  currentVersion: number
 
-  /** Add a new version with migration transform */
+  /**
+   * Parse value, migrating from older versions if needed.
+   * Pass the version the value was stored at to skip detecting it.
+   */
+  parse(
+    value: v.InferInput<TVersions[number]['schema'] | TSchema>,
+    from?: number,
+  ): v.InferOutput<TSchema>
+
+  /**
+   * Parse a value of any version and migrate it up or down to the given version.
+   * Migrating down requires a `down` transform on every version in between.
+   */
+  parseAs(version: number, value: unknown, from?: number): unknown
+
+  /** Add a new version with migration transform, and optionally its reverse */
   version<
     TNewSchema extends v.GenericSchema,
     TTransform extends (value: v.InferOutput<TSchema>) => v.InferInput<TNewSchema>,
   >(
     schema: TNewSchema,
     transform: TTransform,
+    down?: (value: v.InferOutput<TNewSchema>) => v.InferInput<TSchema>,
   ): Prettify<
     VersionedSchema<[...TVersions, { schema: TSchema; transform: TTransform }], TNewSchema>
   >
@@ -63,61 +81,92 @@ export interface VersionedSchema<
 export function schema<TSchema extends v.GenericSchema>(
   initialSchema: TSchema,
 ): VersionedSchema<[], TSchema> {
-  return {
-    schema: initialSchema,
-    parse(value) {
-      const result = v.safeParse(initialSchema, value)
-      if (result.success) {
-        return result.output
-      }
-      throw new SchemaError([[result.issues[0], ...result.issues.slice(1)]])
-    },
-    version(newSchema, transform) {
-      return createVersioned([{ schema: initialSchema, transform }], newSchema)
-    },
-  }
+  return createVersioned([], initialSchema) as VersionedSchema<[], TSchema>
 }
 
 function createVersioned<TVersions extends Array<Version>, TSchema extends v.GenericSchema>(
   versions: TVersions,
   currentSchema: TSchema,
 ): Prettify<VersionedSchema<TVersions, TSchema>> {
-  return {
-    schema: currentSchema,
-    parse(value) {
-      // Try current schema first
-      const result = v.safeParse(currentSchema, value)
-      if (result.success) {
-        return result.output
-      }
+  // Older versions are kept newest first, versions[i] is version `currentVersion - 1 - i`
+  const currentVersion = versions.length + 1
 
-      // Try older versions
-      const versionResults: Array<Version & v.SafeParseResult<TSchema>> = []
-      let foundValidVersion = false
+  const schemaOf = (version: number): v.GenericSchema =>
+    version === currentVersion ? currentSchema : versions[currentVersion - 1 - version].schema
 
-      for (const version of versions) {
-        const versionResult = v.safeParse(version.schema, value)
-        versionResults.push({ ...version, ...versionResult })
+  const assertVersion = (version: number) => {
+    if (!Number.isInteger(version) || version < 1 || version > currentVersion) {
+      throw new RangeError(`Version must be between 1 and ${currentVersion}, got ${version}`)
+    }
+  }
 
-        if (versionResult.success) {
-          foundValidVersion = true
-          break
-        }
+  /**
+   * Find the version of a value - the stored version if known, otherwise
+   * the current schema first, then older ones
+   */
+  const detect = (value: unknown, from?: number) => {
+    if (from !== undefined) {
+      if (from > currentVersion) {
+        throw new Error(
+          `Stored at version ${from}, newer than the latest version ${currentVersion}`,
+        )
       }
+      assertVersion(from)
+      const result = v.safeParse(schemaOf(from), value)
+      if (!result.success) throw new SchemaError([result.issues])
+      // Migrations of older versions start from the stored value, like detected ones
+      return { version: from, output: from === currentVersion ? result.output : value }
+    }
+
+    const result = v.safeParse(currentSchema, value)
+    if (result.success) return { version: currentVersion, output: result.output as unknown }
+
+    const issues: Array<[v.BaseIssue<unknown>, ...v.BaseIssue<unknown>[]]> = [result.issues]
+    for (const [index, version] of versions.entries()) {
+      const versionResult = v.safeParse(version.schema, value)
+      if (versionResult.success) return { version: currentVersion - 1 - index, output: value }
+      issues.push(versionResult.issues)
+    }
+    throw new SchemaError(issues)
+  }
 
-      if (foundValidVersion) {
-        // Apply transforms in reverse order to migrate to current
-        return versionResults.toReversed().reduce((val, { transform }) => transform(val), value)
+  /**
+   * Apply transforms to move a value from one version to another
+   */
+  const migrate = (value: unknown, from: number, to: number) => {
+    for (let version = from; version < to; version++) {
+      value = versions[currentVersion - 1 - version].transform(value)
+    }
+    for (let version = from; version > to; version--) {
+      const { down } = versions[currentVersion - version]
+      if (!down) {
+        throw new Error(`No down migration from version ${version} to ${version - 1}`)
       }
+      value = down(value)
+    }
+    return value
+  }
 
-      throw new SchemaError(
-        versionResults
-          .map(({ issues }) => issues)
-          .filter((v): v is NonNullable<typeof v> => v !== undefined),
+  return {
+    schema: currentSchema,
+    currentVersion,
+    parse(value, from) {
+      const detected = detect(value, from)
+      // Older versions are migrated up through each transform to the current version
+      return migrate(detected.output, detected.version, currentVersion)
+    },
+    parseAs(version, value, from) {
+      assertVersion(version)
+      const detected = detect(value, from)
+      const result = v.safeParse(
+        schemaOf(version),
+        migrate(detected.output, detected.version, version),
       )
+      if (!result.success) throw new SchemaError([result.issues])
+      return result.output
     },
-    version(newSchema, transform) {
-      return createVersioned([{ schema: currentSchema, transform }, ...versions], newSchema)
+    version(newSchema, transform, down) {
+      return createVersioned([{ schema: currentSchema, transform, down }, ...versions], newSchema)
     },
   } as Prettify<VersionedSchema<TVersions, TSchema>>
 }
@@ -136,6 +185,21 @@ export function getSchemaEntries(schema: v.GenericSchema): Record<string, v.Gene
   return null
 }
 
+/**
+ * Get the variants of an array of unions, like blocks() (for form generation)
+ */
+export function getSchemaVariants(schema: v.GenericSchema): v.GenericSchema[] {
+  if ('item' in schema && schema.item && typeof schema.item === 'object') {
+    const item = schema.item as v.GenericSchema
+    return 'options' in item && Array.isArray(item.options) ? item.options : []
+  }
+  // Handle wrapped schemas (optional, nullable, etc.)
+  if ('wrapped' in schema && schema.wrapped) {
+    return getSchemaVariants(schema.wrapped as v.GenericSchema)
+  }
+  return []
+}
+
 /**
  * Extract metadata from a schema (for UI hints)
  */
@@ -159,3 +223,59 @@ export function getSchemaMetadata(schema: v.GenericSchema): Record<string, unkno
   }
   return {}
 }
+
+export type SchemaPath = Array<string | number>
+
+/**
+ * Walk a value along its schema, depth-first, calling `visit` for every field value.
+ * Wrappers (optional, nullable, ...) are unwrapped rather than visited.
+ * For unions, the first option the value matches is followed.
+ */
+export function walkSchema(
+  schema: v.GenericSchema,
+  value: unknown,
+  visit: (schema: v.GenericSchema, value: unknown, path: SchemaPath) => void,
+  path: SchemaPath = [],
+): void {
+  const node = schema as v.GenericSchema & {
+    wrapped?: v.GenericSchema
+    entries?: Record<string, v.GenericSchema>
+    item?: v.GenericSchema
+    items?: v.GenericSchema[]
+    options?: unknown[]
+    value?: v.GenericSchema
+  }
+
+  if (node.wrapped) {
+    // A pipe around a wrapper carries metadata of its own
+    if ('pipe' in node) visit(schema, value, path)
+    walkSchema(node.wrapped, value, visit, path)
+    return
+  }
+
+  visit(schema, value, path)
+
+  if ((node.type === 'union' || node.type === 'variant') && node.options) {
+    const option = (node.options as v.GenericSchema[]).find(option => v.is(option, value))
+    if (option) walkSchema(option, value, visit, path)
+    return
+  }
+
+  if (value === null || typeof value !== 'object') return
+
+  const record = value as Record<string | number, unknown>
+
+  if (node.entries) {
+    for (const [key, entry] of Object.entries(node.entries)) {
+      walkSchema(entry, record[key], visit, [...path, key])
+    }
+  } else if (node.type === 'array' && node.item && Array.isArray(value)) {
+    value.forEach((item, index) => walkSchema(node.item!, item, visit, [...path, index]))
+  } else if (node.type === 'tuple' && node.items && Array.isArray(value)) {
+    node.items.forEach((item, index) => walkSchema(item, record[index], visit, [...path, index]))
+  } else if (node.type === 'record' && node.value) {
+    for (const key of Object.keys(record)) {
+      walkSchema(node.value, record[key], visit, [...path, key])
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import * as v from 'valibot'
+import { defineConfig } from './define-config.ts'
+import { reference, richtext, text } from './fields.ts'
+import { schema } from './schema.ts'
+import { generateTypes } from './typegen.ts'
+
+describe('generateTypes', () => {
+  test('types richtext fields as documents and declares them', () => {
+    const types = generateTypes(
+      defineConfig({
+        posts: schema(
+          v.object({
+            title: text({ label: 'Title' }),
+            body: richtext(),
+            intro: v.optional(richtext()),
+            author: v.optional(reference('authors')),
+          }),
+        ),
+      }),
+    )
+    assert.match(types, /^ {2}body: RichTextDocument$/m)
+    assert.match(types, /^ {2}intro\?: RichTextDocument \| undefined$/m)
+    assert.match(types, /^ {2}author\?: Id<"authors"> \| undefined$/m)
+    assert.match(types, /^export interface RichTextDocument \{$/m)
+    assert.match(types, /^export type RichTextBlock =$/m)
+  })
+
+  test('leaves the rich text declarations out when no field uses them', () => {
+    const types = generateTypes(defineConfig({ posts: schema(v.object({ title: text() })) }))
+    assert.doesNotMatch(types, /RichText/)
+  })
+
+  test('refuses collections that would share a type name', () => {
+    const item = schema(v.object({ title: text() }))
+    assert.throws(
+      () => generateTypes(defineConfig({ 'blog-posts': item, blogPosts: item })),
+      /Collections "blog-posts" and "blogPosts" would both generate the type BlogPosts/,
+    )
+    assert.throws(
+      () => generateTypes(defineConfig({ collections: item })),
+      /Collection "collections" would generate the type Collections, which is reserved/,
+    )
+  })
+})
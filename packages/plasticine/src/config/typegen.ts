@@ -0,0 +1,253 @@
+import type * as v from 'valibot'
+import type { PlasticineConfig } from './define-config.ts'
+import { getSchemaMetadata } from './schema.ts'
+
+type SchemaNode = v.GenericSchema & {
+  wrapped?: v.GenericSchema
+  default?: unknown
+  entries?: Record<string, v.GenericSchema>
+  rest?: v.GenericSchema
+  item?: v.GenericSchema
+  items?: v.GenericSchema[]
+  options?: unknown[]
+  key?: v.GenericSchema
+  value?: v.GenericSchema
+  literal?: unknown
+  pipe?: Array<{ kind: string; type: string }>
+}
+
+const WRAPPERS = ['optional', 'exact_optional', 'undefinedable', 'nullable', 'nullish']
+
+/**
+ * Declarations of the rich text tree, mirroring ./richtext.ts (richtext() is a custom schema
+ * whose shape can't be read from the schema itself)
+ */
+const RICH_TEXT_TYPES = `/** Rich text document, as stored by richtext() fields */
+export interface RichTextDocument {
+  type: 'doc'
+  children: RichTextBlock[]
+}
+
+export type RichTextBlock =
+  | { type: 'paragraph'; children: RichTextInline[] }
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; children: RichTextInline[] }
+  | { type: 'list'; ordered: boolean; items: Array<{ type: 'list_item'; children: RichTextBlock[] }> }
+  | { type: 'blockquote'; children: RichTextBlock[] }
+  | { type: 'image'; src: string; alt?: string; title?: string }
+  | { type: 'code_block'; language?: string; text: string }
+  | { type: 'divider' }
+
+export type RichTextInline =
+  | { type: 'text'; text: string; marks?: RichTextMark[] }
+  | { type: 'reference'; collection: string; id: string; label?: string }
+
+export type RichTextMark =
+  | { type: 'bold' }
+  | { type: 'italic' }
+  | { type: 'code' }
+  | { type: 'link'; href: string; title?: string }
+`
+
+/** Names the generated file declares besides the collection types */
+const RESERVED_NAMES = [
+  'Id',
+  'Collections',
+  'CollectionName',
+  'RichTextDocument',
+  'RichTextBlock',
+  'RichTextInline',
+  'RichTextMark',
+]
+
+/**
+ * PascalCase type name for a collection, like `blog-posts` → `BlogPosts`
+ */
+export function toTypeName(collection: string): string {
+  const name = collection
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('')
+  return /^[0-9]/.test(name) ? `_${name}` : name || '_'
+}
+
+const propertyKey = (key: string) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key))
+
+/**
+ * Whether an object entry may be left out of the output
+ */
+function isOptionalEntry(schema: SchemaNode) {
+  return (
+    ['optional', 'exact_optional', 'undefinedable', 'nullish'].includes(schema.type) &&
+    schema.default === undefined
+  )
+}
+
+/**
+ * JSDoc comment from a field's label and description
+ */
+function fieldComment(schema: v.GenericSchema, indent: string) {
+  const { label, description } = getSchemaMetadata(schema)
+  const text = [label, description].filter(part => typeof part === 'string' && part).join(' - ')
+  return text ? `${indent}/** ${text.replace(/\*\//g, '*\\/')} */\n` : ''
+}
+
+/**
+ * Render the TypeScript output type of a valibot schema
+ */
+function renderType(schema: v.GenericSchema, indent: string): string {
+  const node = schema as SchemaNode
+
+  // A transform in the pipe changes the output to something we can't know statically
+  if (node.pipe?.some(action => action.type === 'transform')) return 'unknown'
+
+  if (WRAPPERS.includes(node.type) && node.wrapped) {
+    const inner = renderType(node.wrapped, indent)
+    if (node.default !== undefined) return inner
+    const extra =
+      node.type === 'nullable'
+        ? ['null']
+        : node.type === 'nullish'
+          ? ['null', 'undefined']
+          : ['undefined']
+    return [inner, ...extra].join(' | ')
+  }
+
+  const metadata = getSchemaMetadata(schema)
+  if (metadata.ui === 'reference' && typeof metadata.collection === 'string') {
+    return `Id<${JSON.stringify(metadata.collection)}>`
+  }
+  if (metadata.ui === 'richtext') return 'RichTextDocument'
+
+  switch (node.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'bigint':
+    case 'symbol':
+    case 'null':
+    case 'undefined':
+    case 'void':
+    case 'never':
+    case 'unknown':
+    case 'any':
+      return node.type
+    case 'nan':
+      return 'number'
+    case 'date':
+      return 'Date'
+    case 'blob':
+      return 'Blob'
+    case 'file':
+      return 'File'
+    case 'literal':
+      return JSON.stringify(node.literal)
+    case 'picklist':
+    case 'enum':
+      return (node.options ?? []).map(option => JSON.stringify(option)).join(' | ') || 'never'
+    case 'non_optional':
+    case 'non_nullable':
+    case 'non_nullish': {
+      const excluded =
+        node.type === 'non_optional'
+          ? 'undefined'
+          : node.type === 'non_nullable'
+            ? 'null'
+            : 'null | undefined'
+      return `Exclude<${renderType(node.wrapped!, indent)}, ${excluded}>`
+    }
+    case 'array':
+      return `Array<${renderType(node.item!, indent)}>`
+    case 'set':
+      return `Set<${renderType(node.value!, indent)}>`
+    case 'map':
+      return `Map<${renderType(node.key!, indent)}, ${renderType(node.value!, indent)}>`
+    case 'record':
+      return `Record<${renderType(node.key!, indent)}, ${renderType(node.value!, indent)}>`
+    case 'tuple':
+    case 'loose_tuple':
+    case 'strict_tuple':
+    case 'tuple_with_rest': {
+      const items = (node.items ?? []).map(item => renderType(item, indent))
+      if (node.type === 'tuple_with_rest') items.push(`...Array<${renderType(node.rest!, indent)}>`)
+      if (node.type === 'loose_tuple') items.push('...unknown[]')
+      return `[${items.join(', ')}]`
+    }
+    case 'union':
+    case 'variant':
+      return (node.options as v.GenericSchema[])
+        .map(option => renderType(option, indent))
+        .join(' | ')
+    case 'intersect':
+      return (node.options as v.GenericSchema[])
+        .map(option => renderType(option, indent))
+        .map(type => (type.includes(' | ') ? `(${type})` : type))
+        .join(' & ')
+    case 'object':
+    case 'loose_object':
+    case 'strict_object':
+    case 'object_with_rest': {
+      const inner = `${indent}  `
+      const lines = Object.entries(node.entries ?? {}).map(([key, entry]) => {
+        const optional = isOptionalEntry(entry as SchemaNode) ? '?' : ''
+        return `${fieldComment(entry, inner)}${inner}${propertyKey(key)}${optional}: ${renderType(entry, inner)}`
+      })
+      if (node.type === 'loose_object') lines.push(`${inner}[key: string]: unknown`)
+      if (node.type === 'object_with_rest') {
+        lines.push(`${inner}[key: string]: ${renderType(node.rest!, inner)}`)
+      }
+      return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : '{}'
+    }
+    default:
+      return 'unknown'
+  }
+}
+
+/**
+ * Generate standalone type declarations for every collection's current output type.
+ * References are typed as branded ids of their target collection, so the types can be
+ * used without depending on @plasticine/core or valibot.
+ */
+export function generateTypes(config: PlasticineConfig<any>): string {
+  const collections = config.getCollections()
+
+  // Different collection names can map to the same identifier, like `blog-posts` and `blogPosts`
+  const owners = new Map<string, string>()
+  for (const name of collections) {
+    const typeName = toTypeName(name)
+    const owner = owners.get(typeName)
+    if (owner !== undefined || RESERVED_NAMES.includes(typeName)) {
+      throw new Error(
+        owner !== undefined
+          ? `Collections "${owner}" and "${name}" would both generate the type ${typeName}`
+          : `Collection "${name}" would generate the type ${typeName}, which is reserved`,
+      )
+    }
+    owners.set(typeName, name)
+  }
+
+  const types = collections.map(name => renderType(config.getSchema(name), ''))
+  const lines = [
+    '// Generated by `plasticine typegen` - do not edit',
+    '',
+    'declare const collection: unique symbol',
+    '',
+    '/** Id of an item in a collection */',
+    'export type Id<TCollection extends string> = string & { readonly [collection]: TCollection }',
+    '',
+  ]
+  if (types.some(type => /\bRichTextDocument\b/.test(type))) lines.push(RICH_TEXT_TYPES)
+
+  collections.forEach((name, index) => {
+    const { description } = config.getOptions(name)
+    const comment = [config.getLabel(name), description].filter(Boolean).join(' - ')
+    lines.push(`/** ${comment.replace(/\*\//g, '*\\/')} */`)
+    lines.push(`export type ${toTypeName(name)} = ${types[index]}`, '')
+  })
+
+  lines.push('/** Item types by collection */', 'export interface Collections {')
+  for (const name of collections) lines.push(`  ${propertyKey(name)}: ${toTypeName(name)}`)
+  lines.push('}', '', 'export type CollectionName = keyof Collections', '')
+
+  return lines.join('\n')
+}
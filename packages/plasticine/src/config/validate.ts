@@ -0,0 +1,228 @@
+import * as v from 'valibot'
+import type { PlasticineConfig } from './define-config.ts'
+import { getSchemaMetadata, SchemaError, walkSchema } from './schema.ts'
+
+/**
+ * What's wrong with an item:
+ * - `parse`: the file can't be read in the collection's format
+ * - `schema`: the data doesn't match the schema (of any version)
+ * - `duplicate`: another item in the collection has the same id
+ * - `reference`: a reference points to an item that doesn't exist
+ */
+export type ValidationIssueKind = 'parse' | 'schema' | 'duplicate' | 'reference'
+
+export interface ValidationIssue {
+  kind: ValidationIssueKind
+  collection: string
+  id: string
+  /** Item file, relative to the content directory */
+  file: string
+  /** JSON path of the offending value, like `$.images[2].src` (`$` for the whole item) */
+  path: string
+  message: string
+}
+
+/**
+ * An item as read from its file, before parsing
+ */
+export interface RawContentItem {
+  collection: string
+  id: string
+  file: string
+  data: unknown
+}
+
+/**
+ * An issue with one field of an item, as shown in the editor form
+ */
+export interface FieldIssue {
+  /** Form path of the field, like `images.2.tags.0.name` (empty for the whole item) */
+  path: string
+  keys: Array<string | number>
+  message: string
+}
+
+/**
+ * Data that doesn't match its collection's schema, with issues mapped to form fields
+ */
+export class ItemValidationError extends Error {
+  readonly collection: string
+  readonly issues: FieldIssue[]
+
+  constructor(collection: string, issues: FieldIssue[]) {
+    const [first] = issues
+    super(
+      issues.length === 1
+        ? first.path
+          ? `${first.path}: ${first.message}`
+          : first.message
+        : `${issues.length} fields are invalid`,
+    )
+    this.collection = collection
+    this.issues = issues
+  }
+}
+
+/**
+ * Format a path of keys as a JSON path
+ */
+export function toJsonPath(keys: ReadonlyArray<unknown>): string {
+  return keys.reduce<string>((path, key) => {
+    if (typeof key === 'number') return `${path}[${key}]`
+    const name = String(key)
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? `${path}.${name}` : `${path}[${JSON.stringify(name)}]`
+  }, '$')
+}
+
+/**
+ * Map valibot issues to the form fields they belong to.
+ * Paths stop at map and set keys, which have no field of their own.
+ */
+export function toFieldIssues(issues: ReadonlyArray<v.BaseIssue<unknown>>): FieldIssue[] {
+  return issues.map(issue => {
+    const keys: Array<string | number> = []
+    for (const item of issue.path ?? []) {
+      if (item.type === 'map' || item.type === 'set') break
+      if (typeof item.key !== 'string' && typeof item.key !== 'number') break
+      keys.push(item.key)
+    }
+    return { path: keys.join('.'), keys, message: issue.message }
+  })
+}
+
+/**
+ * Id an item declares through the collection's `id` option (or its slug/id field),
+ * with the field it's read from
+ */
+function declaredId(
+  config: PlasticineConfig<any>,
+  collection: string,
+  data: Record<string, unknown>,
+): { value: string; field?: string } | undefined {
+  const { id: idOption } = config.getOptions(collection)
+  const field =
+    typeof idOption === 'function'
+      ? undefined
+      : (idOption ?? (data.slug !== undefined && data.slug !== null ? 'slug' : 'id'))
+  try {
+    const value = field ? data[field] : (idOption as (data: unknown) => unknown)(data)
+    if (typeof value === 'string' || typeof value === 'number') {
+      return { value: String(value), field }
+    }
+  } catch {
+    // An id function that fails has nothing to compare
+  }
+  return undefined
+}
+
+/**
+ * Issues of an item that failed to parse
+ */
+function getIssues(
+  config: PlasticineConfig<any>,
+  collection: string,
+  data: unknown,
+  error: unknown,
+): v.BaseIssue<unknown>[] {
+  if (!(error instanceof SchemaError)) return []
+  // Checked against one version (the stored one, or the only one)
+  if (error.issues.length === 1) return error.issues[0]
+  // Tried every version - report against the latest, that's the one content should be migrated to
+  const result = v.safeParse(config.getSchema(collection), data)
+  return result.success ? [] : result.issues
+}
+
+/**
+ * Parse data entered for an item, throwing an `ItemValidationError` with the issues of
+ * each field when it doesn't match the collection's schema
+ */
+export function parseItem(
+  config: PlasticineConfig<any>,
+  collection: string,
+  data: unknown,
+): Record<string, unknown> {
+  try {
+    return config.parseCollection(collection, data) as Record<string, unknown>
+  } catch (error) {
+    const issues = getIssues(config, collection, data, error)
+    if (issues.length === 0) throw error
+    throw new ItemValidationError(collection, toFieldIssues(issues))
+  }
+}
+
+/**
+ * Validate items against their collection's schema, and check invariants across items:
+ * ids must be unique within a collection, and references must point to existing items.
+ */
+export function validateItems(
+  config: PlasticineConfig<any>,
+  items: RawContentItem[],
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const parsed: Array<RawContentItem & { data: Record<string, unknown> }> = []
+
+  for (const item of items) {
+    const { collection, id, file } = item
+    try {
+      parsed.push({ ...item, data: config.parseCollection(collection, item.data) })
+    } catch (error) {
+      const schemaIssues = getIssues(config, collection, item.data, error)
+      if (schemaIssues.length === 0) {
+        const message = error instanceof Error ? error.message : String(error)
+        issues.push({ kind: 'schema', collection, id, file, path: '$', message })
+      }
+      for (const issue of schemaIssues) {
+        const path = toJsonPath(issue.path?.map(segment => segment.key) ?? [])
+        issues.push({ kind: 'schema', collection, id, file, path, message: issue.message })
+      }
+    }
+  }
+
+  // Ids within a collection - items that fail the schema still exist for references
+  const ids = new Map<string, Set<string>>()
+  for (const { collection, id, file } of items) {
+    const collectionIds = ids.get(collection) ?? new Set()
+    ids.set(collection, collectionIds)
+
+    if (collectionIds.has(id)) {
+      const message = `Duplicate id "${id}" in ${collection}`
+      issues.push({ kind: 'duplicate', collection, id, file, path: '$', message })
+    }
+    collectionIds.add(id)
+  }
+
+  // Ids declared in the data, which new items' file names are derived from
+  const declared = new Map<string, RawContentItem>()
+  for (const item of parsed) {
+    const { collection, id, file } = item
+    if (config.isSingleton(collection)) continue
+    const declaredAs = declaredId(config, collection, item.data)
+    if (!declaredAs) continue
+
+    const key = `${collection}/${declaredAs.value}`
+    const other = declared.get(key)
+    if (other) {
+      const path = toJsonPath(declaredAs.field ? [declaredAs.field] : [])
+      const message = `Duplicate id "${declaredAs.value}" in ${collection}, also used by ${other.file}`
+      issues.push({ kind: 'duplicate', collection, id, file, path, message })
+    } else {
+      declared.set(key, item)
+    }
+  }
+
+  // References to other items
+  for (const item of parsed) {
+    const { collection, id, file } = item
+    walkSchema(config.getSchema(collection), item.data, (schema, value, path) => {
+      const metadata = getSchemaMetadata(schema)
+      if (metadata.ui !== 'reference' || typeof value !== 'string') return
+
+      const target = metadata.collection as string
+      if (ids.get(target)?.has(value)) return
+      const message = `Reference to missing ${target} item "${value}"`
+      issues.push({ kind: 'reference', collection, id, file, path: toJsonPath(path), message })
+    })
+  }
+
+  return issues
+}
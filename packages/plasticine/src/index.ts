@@ -1,14 +1,27 @@
 // Config
+export * from './config/collection'
 export * from "./config/define-config"
 export * from './config/fields'
+export * from './config/formats'
+export * from './config/json-schema'
+export * from './config/media'
+export * from './config/richtext'
 export * from './config/schema'
+export * from './config/typegen'
+export * from './config/validate'
 
 // Client
 export * from './client/client'
 export * from './client/github'
+export * from './client/markdown'
+export * from './client/populate'
+export * from './client/query'
+export * from './client/richtext'
+export * from './client/snapshot'
 
 // Backend
 export * from './backend/github'
+export * from './backend/local'
 export * from './backend/types'
 
 // Auth
@@ -21,7 +34,13 @@ export * from './ui/CollectionList'
 export * from './ui/Editor'
 export * from './ui/FieldComponents'
 export * from './ui/ItemList'
+export * from './ui/MarkdownField'
+export * from './ui/media'
 export * from './ui/MediaLibrary'
+export * from './ui/MediaPicker'
+export * from './ui/MediaUploader'
+export * from './ui/RichTextField'
 export * from './ui/SchemaForm'
 export * from './ui/store'
+export * from './ui/WorkflowBoard'
 
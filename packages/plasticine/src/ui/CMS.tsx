@@ -8,6 +8,7 @@ import { Editor } from './Editor'
 import { ItemList } from './ItemList'
 import { Link } from './Link'
 import { MediaLibrary } from './MediaLibrary'
+import { WorkflowBoard } from './WorkflowBoard'
 
 interface CMSProps<T extends CollectionsConfig = CollectionsConfig> {
   config: PlasticineConfig<T>
@@ -45,11 +46,22 @@ function CMSContent(props: { config: PlasticineConfig<any> }) {
       <Match when={searchParams.view === 'media'}>
         <MediaLibrary />
       </Match>
+      <Match when={searchParams.view === 'workflow'}>
+        <WorkflowBoard config={props.config} />
+      </Match>
+      <Match when={searchParams.collection && props.config.isSingleton(searchParams.collection)}>
+        <Editor
+          config={props.config}
+          schema={props.config.getSchema(searchParams.collection!)}
+          collectionKey={searchParams.collection!}
+          itemId={searchParams.collection!}
+        />
+      </Match>
       <Match when={searchParams.collection}>
         {collection => (
           <Show
             when={searchParams.item}
-            fallback={<ItemList collectionKey={searchParams.collection!} />}
+            fallback={<ItemList config={props.config} collectionKey={searchParams.collection!} />}
           >
             {item => (
               <Show
@@ -57,7 +69,12 @@ function CMSContent(props: { config: PlasticineConfig<any> }) {
                 fallback={<div>Collection not found</div>}
               >
                 {schema => (
-                  <Editor schema={schema()} collectionKey={collection()} itemId={item()} />
+                  <Editor
+                    config={props.config}
+                    schema={schema()}
+                    collectionKey={collection()}
+                    itemId={item()}
+                  />
                 )}
               </Show>
             )}
@@ -74,8 +91,6 @@ function CMSContent(props: { config: PlasticineConfig<any> }) {
 function CMSSidebar(props: { config: PlasticineConfig<any> }) {
   const [state] = useCMS()
 
-  const displayName = (name: string) => name.charAt(0).toUpperCase() + name.slice(1)
-
   return (
     <aside class="cms-sidebar">
       <nav class="collection-list">
@@ -83,13 +98,27 @@ function CMSSidebar(props: { config: PlasticineConfig<any> }) {
         <ul class="collection-list-items">
           {props.config.getCollections().map(name => (
             <Link params={{ collection: name }} class="collection-list-item" activeClass="active">
-              <span class="collection-name">{displayName(name)}</span>
-              <span class="collection-count">{state.collections[name]?.items.length || 0}</span>
+              <span class="collection-name">{props.config.getLabel(name)}</span>
+              <Show when={!props.config.isSingleton(name)}>
+                <span class="collection-count">{state.collections[name]?.items.length || 0}</span>
+              </Show>
             </Link>
           ))}
         </ul>
       </nav>
 
+      <Show when={state.workflow.enabled}>
+        <nav class="workflow-nav">
+          <h2 class="workflow-nav-title">Workflow</h2>
+          <ul class="workflow-nav-items">
+            <Link params={{ view: 'workflow' }} class="workflow-nav-item" activeClass="active">
+              <span class="workflow-nav-name">Board</span>
+              <span class="workflow-nav-count">{state.workflow.entries.length}</span>
+            </Link>
+          </ul>
+        </nav>
+      </Show>
+
       <nav class="media-nav">
         <h2 class="media-nav-title">Media</h2>
         <ul class="media-nav-items">
@@ -126,7 +155,9 @@ function CMSLayout(props: { config: PlasticineConfig<any> }) {
         </Link>
         <Show when={state.user}>
           <div class="cms-user">
-            <img src={state.user!.avatar_url} alt={state.user!.login} class="cms-avatar" />
+            <Show when={state.user!.avatar_url}>
+              <img src={state.user!.avatar_url} alt={state.user!.login} class="cms-avatar" />
+            </Show>
             <span class="cms-username">{state.user!.login}</span>
             <button class="btn btn-small" onClick={() => actions.logout()}>
               Logout
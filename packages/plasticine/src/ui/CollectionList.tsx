@@ -1,9 +1,12 @@
-import { For } from 'solid-js'
+import { For, Show } from 'solid-js'
+import type { PlasticineConfig } from '../config/define-config'
 import { useCMS } from './context'
 import { Link } from './Link'
 
 interface CollectionListProps {
-  collections: string[]
+  config: PlasticineConfig<any>
+  /** Collections to list (default: all collections of the config) */
+  collections?: string[]
 }
 
 /**
@@ -13,18 +16,17 @@ interface CollectionListProps {
 export function CollectionList(props: CollectionListProps) {
   const [state] = useCMS()
 
-  // Capitalize collection name for display
-  const displayName = (name: string) => name.charAt(0).toUpperCase() + name.slice(1)
-
   return (
     <nav class="collection-list">
       <h2 class="collection-list-title">Collections</h2>
       <ul class="collection-list-items">
-        <For each={props.collections}>
+        <For each={props.collections ?? props.config.getCollections()}>
           {name => (
             <Link params={{ collection: name }} class="collection-list-item" activeClass="active">
-              <span class="collection-name">{displayName(name)}</span>
-              <span class="collection-count">{state.collections[name]?.items.length || 0}</span>
+              <span class="collection-name">{props.config.getLabel(name)}</span>
+              <Show when={!props.config.isSingleton(name)}>
+                <span class="collection-count">{state.collections[name]?.items.length || 0}</span>
+              </Show>
             </Link>
           )}
         </For>
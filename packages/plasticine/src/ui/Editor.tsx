@@ -1,13 +1,20 @@
 import { useAction, useSearchParams, useSubmission } from '@solidjs/router'
-import { Show } from 'solid-js'
+import { onCleanup, Show } from 'solid-js'
 import type * as v from 'valibot'
 import { type ContentItem } from '../backend/types'
-import { saveItemAction } from './actions'
+import type { PlasticineConfig } from '../config/define-config'
+import {
+  publishEntryAction,
+  saveDraftAction,
+  saveItemAction,
+  setWorkflowStatusAction,
+} from './actions'
 import { CMSParams } from './CMS'
 import { useCMS } from './context'
 import { SchemaForm } from './SchemaForm'
 
 interface EditorProps {
+  config: PlasticineConfig<any>
   schema: v.GenericSchema
   collectionKey: string
   itemId: string
@@ -21,31 +28,50 @@ export function Editor(props: EditorProps) {
   const [, setSearchParams] = useSearchParams<CMSParams>()
 
   const saveItem = useAction(saveItemAction)
-  const submission = useSubmission(saveItemAction)
+  const saveDraft = useAction(saveDraftAction)
+  const setStatus = useAction(setWorkflowStatusAction)
+  const publish = useAction(publishEntryAction)
+
+  const itemSubmission = useSubmission(saveItemAction)
+  const draftSubmission = useSubmission(saveDraftAction)
+  const statusSubmission = useSubmission(setWorkflowStatusAction)
+  const publishSubmission = useSubmission(publishEntryAction)
+
+  const submission = () => (state.workflow.enabled ? draftSubmission : itemSubmission)
 
   const isNew = () => props.itemId === '__new__'
 
-  // Capitalize collection name for display
-  const displayName = () =>
-    props.collectionKey.charAt(0).toUpperCase() + props.collectionKey.slice(1)
+  // Singletons have no list to go back to, and are edited even before their file exists
+  const isSingleton = () => props.config.isSingleton(props.collectionKey)
+
+  // Unpublished draft of this item, if the editorial workflow is enabled
+  const entry = () =>
+    isNew() ? undefined : actions.getWorkflowEntry(props.collectionKey, props.itemId)
 
-  // Get item from already-loaded collection data
+  const workflowPending = () => statusSubmission.pending || publishSubmission.pending
+
+  const displayName = () => props.config.getLabel(props.collectionKey)
+  const description = () =>
+    isSingleton() ? props.config.getOptions(props.collectionKey).description : undefined
+
+  // Get item from already-loaded collection data (drafts take precedence)
   const itemData = (): ContentItem | undefined => {
     if (isNew()) return undefined
+    const draft = entry()
+    if (draft) return draft
     const collection = state.collections[props.collectionKey]
     return collection?.items.find(item => item.id === props.itemId)
   }
 
   const handleSubmit = async (data: Record<string, unknown>) => {
-    const existingSha = itemData()?.sha
-    await saveItem(props.collectionKey, data, existingSha, actions)
+    const existing = isNew() ? undefined : { id: props.itemId, sha: itemData()?.sha }
+    const { id } = state.workflow.enabled
+      ? await saveDraft(props.collectionKey, data, existing, actions)
+      : await saveItem(props.collectionKey, data, existing, actions)
 
     // If was new, navigate to the created item
     if (isNew()) {
-      const id = (data.slug ?? data.id) as string
-      if (id) {
-        setSearchParams({ item: id }, { replace: true })
-      }
+      setSearchParams({ item: id }, { replace: true })
     }
   }
 
@@ -56,21 +82,73 @@ export function Editor(props: EditorProps) {
   return (
     <div class="editor">
       <div class="editor-header">
-        <h2 class="editor-title">{isNew() ? `New ${displayName()}` : `Edit ${displayName()}`}</h2>
+        <div>
+          <h2 class="editor-title">
+            {isSingleton()
+              ? displayName()
+              : isNew()
+                ? `New ${displayName()}`
+                : `Edit ${displayName()}`}
+          </h2>
+          <Show when={description()}>
+            <p class="editor-description">{description()}</p>
+          </Show>
+        </div>
+
+        <Show when={entry()}>
+          {entry => (
+            <div class="editor-workflow">
+              <span class={`workflow-status workflow-status-${entry().status}`}>
+                {entry().status}
+              </span>
+              <Show when={entry().status === 'draft'}>
+                <button
+                  class="btn btn-secondary btn-small"
+                  onClick={() => setStatus(entry().collection, entry().id, 'review', actions)}
+                  disabled={workflowPending()}
+                >
+                  Submit for review
+                </button>
+              </Show>
+              <Show when={entry().status === 'review'}>
+                <button
+                  class="btn btn-secondary btn-small"
+                  onClick={() => setStatus(entry().collection, entry().id, 'ready', actions)}
+                  disabled={workflowPending()}
+                >
+                  Mark ready
+                </button>
+              </Show>
+              <Show when={entry().status === 'ready'}>
+                <button
+                  class="btn btn-primary btn-small"
+                  onClick={() => publish(entry().collection, entry().id, actions)}
+                  disabled={workflowPending()}
+                >
+                  Publish
+                </button>
+              </Show>
+            </div>
+          )}
+        </Show>
       </div>
 
-      <Show when={isNew() ? props.itemId : itemData()} keyed>
-        {data => (
-          <SchemaForm
-            schema={props.schema}
-            initialData={isNew() ? undefined : (data as ContentItem).data}
-            onSubmit={handleSubmit}
-            onCancel={handleCancel}
-            submitLabel={isNew() ? 'Create' : 'Save'}
-            pending={submission.pending}
-            error={submission.error ? String(submission.error) : undefined}
-          />
-        )}
+      <Show when={isNew() ? props.itemId : (itemData() ?? (isSingleton() && props.itemId))} keyed>
+        {data => {
+          // Files uploaded for an item that's left without saving are never committed
+          onCleanup(() => actions.discardUploads())
+          return (
+            <SchemaForm
+              schema={props.schema}
+              initialData={typeof data === 'string' ? undefined : data.data}
+              onSubmit={handleSubmit}
+              onCancel={isSingleton() ? undefined : handleCancel}
+              submitLabel={state.workflow.enabled ? 'Save draft' : isNew() ? 'Create' : 'Save'}
+              pending={submission().pending}
+              error={submission().error}
+            />
+          )
+        }}
       </Show>
     </div>
   )
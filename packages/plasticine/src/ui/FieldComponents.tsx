@@ -1,10 +1,13 @@
-import { Field, FieldArray, insert, remove } from '@formisch/solid'
+import { Field, FieldArray, getInput, insert, move, remove, setInput } from '@formisch/solid'
 import { createSignal, For, Match, Show, Switch, type Component } from 'solid-js'
 import { Dynamic, Index } from 'solid-js/web'
 import type * as v from 'valibot'
-import type { FieldMetadata, FieldUIType } from '../config/fields'
-import { getSchemaMetadata } from '../config/schema'
+import type { FieldMetadata, FieldUIType, ImageProcessingOptions } from '../config/fields'
+import { getSchemaEntries, getSchemaMetadata, getSchemaVariants } from '../config/schema'
 import { useCMS } from './context'
+import { MarkdownField } from './MarkdownField'
+import { MediaPicker } from './MediaPicker'
+import { RichTextField } from './RichTextField'
 
 export interface FieldState {
   input: unknown
@@ -15,6 +18,8 @@ export interface FieldState {
 export interface FieldComponentProps {
   field: FieldState
   metadata: Partial<FieldMetadata>
+  /** Set the value directly, for fields that aren't backed by a form element */
+  setInput: (value: unknown) => void
 }
 
 export interface DynamicFieldProps {
@@ -41,6 +46,20 @@ export interface ArrayFieldProps {
   metadata: Partial<FieldMetadata>
 }
 
+// Blocks Field Component
+export interface BlocksFieldProps {
+  form: any
+  path: readonly [string, ...(string | number)[]]
+  schema: v.GenericSchema
+  label: string
+  metadata: Partial<FieldMetadata>
+}
+
+interface BlockType {
+  type: string
+  label: string
+}
+
 /**********************************************************************************/
 /*                                                                                */
 /*                                     Utils                                      */
@@ -165,18 +184,6 @@ export const TextareaField: Component<FieldComponentProps> = props => {
   )
 }
 
-export const MarkdownField: Component<FieldComponentProps> = props => {
-  return (
-    <textarea
-      class="input textarea markdown-editor"
-      {...props.field.props}
-      value={(props.field.input as string) ?? ''}
-      placeholder={props.metadata.placeholder || 'Write markdown...'}
-      rows={10}
-    />
-  )
-}
-
 export const NumberField: Component<FieldComponentProps> = props => {
   return (
     <input
@@ -245,11 +252,20 @@ export const SlugField: Component<FieldComponentProps> = props => {
 export const ImageField: Component<FieldComponentProps> = props => {
   const [, actions] = useCMS()
   const [uploading, setUploading] = createSignal(false)
+  const [picking, setPicking] = createSignal(false)
   let urlInputRef: HTMLInputElement | undefined
 
   const value = () => props.field.input as string
   const accept = () => (props.metadata.accept as string) || 'image/*'
   const fieldPath = () => props.metadata.path as string | undefined
+  const processing = () => props.metadata.processing as ImageProcessingOptions | undefined
+
+  const setUrl = (url: string) => {
+    if (urlInputRef) {
+      urlInputRef.value = url
+      urlInputRef.dispatchEvent(new Event('input', { bubbles: true }))
+    }
+  }
 
   const handleFileSelect = async (e: Event) => {
     const input = e.target as HTMLInputElement
@@ -258,11 +274,7 @@ export const ImageField: Component<FieldComponentProps> = props => {
 
     setUploading(true)
     try {
-      const url = await actions.uploadFile(file, fieldPath())
-      if (urlInputRef) {
-        urlInputRef.value = url
-        urlInputRef.dispatchEvent(new Event('input', { bubbles: true }))
-      }
+      setUrl((await actions.stageUpload(file, fieldPath(), { image: processing() })).url)
     } catch (err) {
       console.error('Upload failed:', err)
       alert('Upload failed: ' + (err instanceof Error ? err.message : 'Unknown error'))
@@ -292,9 +304,22 @@ export const ImageField: Component<FieldComponentProps> = props => {
             disabled={uploading()}
           />
         </label>
+        <button type="button" class="btn btn-secondary" onClick={() => setPicking(true)}>
+          Browse
+        </button>
       </div>
       <Show when={value()}>
-        <img src={value()} alt="Preview" class="image-preview" />
+        <img src={actions.mediaPreview(value())} alt="Preview" class="image-preview" />
+      </Show>
+      <Show when={picking()}>
+        <MediaPicker
+          path={fieldPath()}
+          images={props.metadata.ui === 'image'}
+          accept={accept()}
+          processing={processing()}
+          onSelect={file => setUrl(file.url)}
+          onClose={() => setPicking(false)}
+        />
       </Show>
     </div>
   )
@@ -330,10 +355,15 @@ export const ReferenceField: Component<FieldComponentProps> = props => {
   )
 }
 
-export const fieldComponents: Record<FieldUIType, Component<FieldComponentProps>> = {
+// Blocks render their own nested forms, see BlocksField
+export const fieldComponents: Record<
+  Exclude<FieldUIType, 'blocks'>,
+  Component<FieldComponentProps>
+> = {
   text: TextField,
   textarea: TextareaField,
   markdown: MarkdownField,
+  richtext: RichTextField,
   number: NumberField,
   boolean: BooleanField,
   date: DateField,
@@ -353,7 +383,7 @@ export const fieldComponents: Record<FieldUIType, Component<FieldComponentProps>
 
 export function ObjectField(props: ObjectFieldProps) {
   return (
-    <div class="field object-field">
+    <div class="field object-field" data-path={props.path.join('.')}>
       <label class="field-label">{props.label}</label>
       <div class="object-field-entries">
         <For each={Object.entries(props.entries)}>
@@ -384,7 +414,11 @@ export function ArrayField(props: ArrayFieldProps) {
   return (
     <FieldArray of={props.form} path={props.path}>
       {fieldArray => (
-        <div class="field array-field">
+        <div
+          class="field array-field"
+          classList={{ 'field-invalid': !!fieldArray.errors }}
+          data-path={props.path.join('.')}
+        >
           <div class="array-field-header">
             <label class="field-label">{props.label}</label>
             <button type="button" class="btn btn-small btn-secondary" onClick={handleAdd}>
@@ -419,6 +453,157 @@ export function ArrayField(props: ArrayFieldProps) {
           <Show when={fieldArray.items.length === 0}>
             <div class="array-field-empty">No items yet. Click "Add" to create one.</div>
           </Show>
+
+          <Show when={fieldArray.errors?.[0]}>
+            <span class="field-error">{fieldArray.errors![0]}</span>
+          </Show>
+        </div>
+      )}
+    </FieldArray>
+  )
+}
+
+export function BlocksField(props: BlocksFieldProps) {
+  const [menuOpen, setMenuOpen] = createSignal(false)
+
+  // The form's schema isn't known here, so paths can't be checked against it
+  const path = (): any => props.path
+  const fieldPath = (index: number, key: string): any => [...props.path, index, key]
+
+  const blockTypes = () => (props.metadata.blocks as BlockType[]) || []
+  const variants = () => getSchemaVariants(props.schema)
+
+  const variantOf = (type: string) =>
+    variants().find(variant => {
+      const typeSchema = getSchemaEntries(variant)?.type as { literal?: unknown } | undefined
+      return typeSchema?.literal === type
+    })
+
+  // The form fields of a block - its type is shown in the header instead
+  const blockEntries = (type: string) => {
+    const variant = variantOf(type)
+    const { type: _, ...entries } = (variant && getSchemaEntries(variant)) || {}
+    return Object.entries(entries)
+  }
+
+  const blockLabel = (type: string) =>
+    blockTypes().find(block => block.type === type)?.label ?? type
+
+  const handleAdd = (type: string) => {
+    const variant = variantOf(type)
+    insert(props.form, {
+      path: path(),
+      initialInput: { ...(variant && (getDefaultValue(variant) as object)), type } as any,
+    })
+    setMenuOpen(false)
+  }
+
+  const handleMove = (from: number, to: number) => {
+    move(props.form, { path: path(), from, to })
+  }
+
+  const handleRemove = (index: number) => {
+    remove(props.form, {
+      path: path(),
+      at: index,
+    })
+  }
+
+  return (
+    <FieldArray of={props.form} path={path()}>
+      {fieldArray => (
+        <div
+          class="field array-field blocks-field"
+          classList={{ 'field-invalid': !!fieldArray.errors }}
+          data-path={props.path.join('.')}
+        >
+          <div class="array-field-header">
+            <label class="field-label">{props.label}</label>
+            <div class="blocks-field-add">
+              <button
+                type="button"
+                class="btn btn-small btn-secondary"
+                onClick={() => setMenuOpen(!menuOpen())}
+              >
+                + Add block
+              </button>
+              <Show when={menuOpen()}>
+                <div class="blocks-field-menu">
+                  <For each={blockTypes()}>
+                    {block => (
+                      <button type="button" onClick={() => handleAdd(block.type)}>
+                        {block.label}
+                      </button>
+                    )}
+                  </For>
+                </div>
+              </Show>
+            </div>
+          </div>
+
+          <div class="array-field-items">
+            <For each={fieldArray.items}>
+              {(_, index) => {
+                const type = () =>
+                  getInput(props.form, { path: fieldPath(index(), 'type') }) as string
+
+                return (
+                  <div class="blocks-field-item">
+                    <div class="blocks-field-item-header">
+                      <span class="blocks-field-type">{blockLabel(type())}</span>
+                      <div class="blocks-field-item-actions">
+                        <button
+                          type="button"
+                          class="btn btn-small btn-secondary"
+                          onClick={() => handleMove(index(), index() - 1)}
+                          disabled={index() === 0}
+                          title="Move up"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          class="btn btn-small btn-secondary"
+                          onClick={() => handleMove(index(), index() + 1)}
+                          disabled={index() === fieldArray.items.length - 1}
+                          title="Move down"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          type="button"
+                          class="btn btn-small btn-danger"
+                          onClick={() => handleRemove(index())}
+                          title="Remove"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    </div>
+                    <div class="object-field-entries">
+                      <For each={blockEntries(type())}>
+                        {([key, fieldSchema]) => (
+                          <DynamicField
+                            form={props.form}
+                            path={fieldPath(index(), key)}
+                            schema={fieldSchema}
+                          />
+                        )}
+                      </For>
+                    </div>
+                  </div>
+                )
+              }}
+            </For>
+          </div>
+
+          <Show when={fieldArray.items.length === 0}>
+            <div class="array-field-empty">No blocks yet. Click "Add block" to create one.</div>
+          </Show>
+
+          <Show when={fieldArray.errors?.[0]}>
+            <span class="field-error">{fieldArray.errors![0]}</span>
+          </Show>
         </div>
       )}
     </FieldArray>
@@ -433,17 +618,26 @@ export function DynamicField(props: DynamicFieldProps) {
   const label = () => props.label || getFieldLabel(props.schema, props.path)
   const metadata = () => getSchemaMetadata(props.schema) as Partial<FieldMetadata>
 
+  const setValue = (value: unknown) => {
+    setInput(props.form, { path: props.path, input: value } as any)
+  }
+
   return (
     <Switch
       fallback={
         <Field of={props.form} path={props.path}>
           {field => (
-            <div class="field">
+            <div
+              class="field"
+              classList={{ 'field-invalid': !!field.errors }}
+              data-path={props.path.join('.')}
+            >
               <label class="field-label">{label()}</label>
               <Dynamic
-                component={fieldComponents[uiType()]}
+                component={fieldComponents[uiType() as keyof typeof fieldComponents]}
                 field={field as FieldState}
                 metadata={metadata()}
+                setInput={setValue}
               />
               <Show when={field.errors?.[0]}>
                 <span class="field-error">{field.errors![0]}</span>
@@ -453,6 +647,15 @@ export function DynamicField(props: DynamicFieldProps) {
         </Field>
       }
     >
+      <Match when={uiType() === 'blocks'}>
+        <BlocksField
+          form={props.form}
+          path={props.path}
+          schema={props.schema}
+          label={label()}
+          metadata={metadata()}
+        />
+      </Match>
       <Match when={isArraySchema(props.schema)}>
         <ArrayField
           form={props.form}
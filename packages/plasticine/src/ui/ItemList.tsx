@@ -1,10 +1,12 @@
 import { useAction, useSubmission } from '@solidjs/router'
 import { For, Show } from 'solid-js'
+import type { PlasticineConfig } from '../config/define-config'
 import { deleteItemAction } from './actions'
 import { useCMS } from './context'
 import { Link } from './Link'
 
 interface ItemListProps {
+  config: PlasticineConfig<any>
   collectionKey: string
 }
 
@@ -20,13 +22,8 @@ export function ItemList(props: ItemListProps) {
   const collectionState = () => state.collections[props.collectionKey]
   const items = () => collectionState()?.items || []
 
-  // Capitalize collection name for display
-  const displayName = () =>
-    props.collectionKey.charAt(0).toUpperCase() + props.collectionKey.slice(1)
-
-  const getItemTitle = (data: Record<string, unknown>): string => {
-    return (data.title as string) || (data.name as string) || (data.slug as string) || 'Untitled'
-  }
+  const displayName = () => props.config.getLabel(props.collectionKey)
+  const description = () => props.config.getOptions(props.collectionKey).description
 
   const handleDelete = (id: string, sha?: string) => {
     if (!confirm('Are you sure you want to delete this item?')) return
@@ -43,7 +40,12 @@ export function ItemList(props: ItemListProps) {
   return (
     <div class="item-list">
       <div class="item-list-header">
-        <h2 class="item-list-title">{displayName()}</h2>
+        <div>
+          <h2 class="item-list-title">{displayName()}</h2>
+          <Show when={description()}>
+            <p class="item-list-description">{description()}</p>
+          </Show>
+        </div>
         <Link params={{ collection: props.collectionKey, item: '__new__' }} class="btn btn-primary">
           + New
         </Link>
@@ -70,7 +72,9 @@ export function ItemList(props: ItemListProps) {
                 class="item-info"
                 activeClass="active"
               >
-                <span class="item-title">{getItemTitle(item.data)}</span>
+                <span class="item-title">
+                  {props.config.getItemTitle(props.collectionKey, item)}
+                </span>
                 <span class="item-id">{item.id}</span>
               </Link>
               <button
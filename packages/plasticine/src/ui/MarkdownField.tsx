@@ -0,0 +1,201 @@
+import { createSignal, For, Show, type Component } from 'solid-js'
+import { markdownToHTML } from '../client/markdown'
+import { useCMS } from './context'
+import type { FieldComponentProps } from './FieldComponents'
+import { altFromFileName } from './media'
+import { MediaPicker } from './MediaPicker'
+
+type EditorMode = 'write' | 'split' | 'preview'
+
+const MODES: Array<{ mode: EditorMode; label: string }> = [
+  { mode: 'write', label: 'Write' },
+  { mode: 'split', label: 'Split' },
+  { mode: 'preview', label: 'Preview' },
+]
+
+const imageFiles = (files: FileList | undefined | null) =>
+  [...(files ?? [])].filter(file => file.type.startsWith('image/'))
+
+export const MarkdownField: Component<FieldComponentProps> = props => {
+  const [, actions] = useCMS()
+  const [mode, setMode] = createSignal<EditorMode>('write')
+  const [picking, setPicking] = createSignal(false)
+  let textareaRef: HTMLTextAreaElement | undefined
+
+  const value = () => (props.field.input as string) ?? ''
+  const uploadPath = () => props.metadata.path as string | undefined
+
+  /**
+   * Replace a range of the text, and let the form know like a keystroke would
+   */
+  const replaceRange = (text: string, start: number, end: number, select?: [number, number]) => {
+    const textarea = textareaRef!
+    textarea.focus()
+    textarea.setRangeText(text, start, end, 'end')
+    if (select) textarea.setSelectionRange(select[0], select[1])
+    textarea.dispatchEvent(new Event('input', { bubbles: true }))
+  }
+
+  /**
+   * Wrap the selection in markers, like `**bold**` - selecting the placeholder without one
+   */
+  const wrap = (before: string, after: string, placeholder: string) => {
+    const { selectionStart: start, selectionEnd: end, value } = textareaRef!
+    const inner = value.slice(start, end) || placeholder
+    const innerStart = start + before.length
+    replaceRange(`${before}${inner}${after}`, start, end, [innerStart, innerStart + inner.length])
+  }
+
+  /**
+   * Prefix every selected line, like `## ` or `- `
+   */
+  const prefixLines = (prefix: (index: number) => string) => {
+    const { selectionStart, selectionEnd, value } = textareaRef!
+    const start = value.lastIndexOf('\n', selectionStart - 1) + 1
+    const lineEnd = value.indexOf('\n', selectionEnd)
+    const end = lineEnd === -1 ? value.length : lineEnd
+    const lines = value
+      .slice(start, end)
+      .split('\n')
+      .map((line, index) => prefix(index) + line)
+      .join('\n')
+    replaceRange(lines, start, end, [start, start + lines.length])
+  }
+
+  const insertLink = () => {
+    const { selectionStart: start, selectionEnd: end, value } = textareaRef!
+    const text = value.slice(start, end) || 'link text'
+    const urlStart = start + text.length + 3
+    replaceRange(`[${text}](https://)`, start, end, [urlStart, urlStart + 8])
+  }
+
+  const insertText = (text: string) => {
+    const { selectionStart, selectionEnd } = textareaRef!
+    replaceRange(text, selectionStart, selectionEnd)
+  }
+
+  const insertImage = (url: string, alt: string) => {
+    insertText(`![${alt.replace(/[[\]]/g, '')}](${url.replace(/ /g, '%20')})`)
+  }
+
+  /**
+   * Upload pasted or dropped images, showing a placeholder in the text while they upload
+   */
+  const uploadImages = (files: File[]) => {
+    const placeholders = files.map(file => `![Uploading ${file.name}...]()`)
+    insertText(placeholders.join('\n'))
+
+    return Promise.all(
+      files.map(async (file, index) => {
+        let markdown = ''
+        try {
+          const { url } = await actions.stageUpload(file, uploadPath())
+          markdown = `![${altFromFileName(file.name)}](${url.replace(/ /g, '%20')})`
+        } catch (err) {
+          console.error('Upload failed:', err)
+          alert('Upload failed: ' + (err instanceof Error ? err.message : 'Unknown error'))
+        }
+
+        // The text may have changed while uploading - find the placeholder again
+        const start = textareaRef!.value.indexOf(placeholders[index])
+        if (start !== -1) replaceRange(markdown, start, start + placeholders[index].length)
+      }),
+    )
+  }
+
+  const handlePaste = (e: ClipboardEvent) => {
+    const files = imageFiles(e.clipboardData?.files)
+    if (files.length === 0) return
+    e.preventDefault()
+    uploadImages(files)
+  }
+
+  const handleDragOver = (e: DragEvent) => {
+    if (e.dataTransfer?.types.includes('Files')) e.preventDefault()
+  }
+
+  const handleDrop = (e: DragEvent) => {
+    const files = imageFiles(e.dataTransfer?.files)
+    if (files.length === 0) return
+    e.preventDefault()
+    uploadImages(files)
+  }
+
+  const tool = (label: string, title: string, run: () => void) => (
+    <button
+      type="button"
+      class="richtext-tool"
+      title={title}
+      disabled={mode() === 'preview'}
+      onClick={run}
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <div class="markdown-field">
+      <div class="richtext-toolbar">
+        {tool('B', 'Bold', () => wrap('**', '**', 'bold text'))}
+        {tool('I', 'Italic', () => wrap('*', '*', 'italic text'))}
+        {tool('</>', 'Code', () => wrap('`', '`', 'code'))}
+        {tool('Link', 'Link', insertLink)}
+        <span class="richtext-separator" />
+        {tool('H2', 'Heading', () => prefixLines(() => '## '))}
+        {tool('H3', 'Subheading', () => prefixLines(() => '### '))}
+        {tool('• List', 'Bulleted list', () => prefixLines(() => '- '))}
+        {tool('1. List', 'Numbered list', () => prefixLines(index => `${index + 1}. `))}
+        {tool('❝', 'Quote', () => prefixLines(() => '> '))}
+        <span class="richtext-separator" />
+        {tool('Image', 'Insert image', () => setPicking(true))}
+
+        <div class="markdown-modes">
+          <For each={MODES}>
+            {option => (
+              <button
+                type="button"
+                class="richtext-tool"
+                classList={{ active: mode() === option.mode }}
+                onClick={() => setMode(option.mode)}
+              >
+                {option.label}
+              </button>
+            )}
+          </For>
+        </div>
+      </div>
+
+      <Show when={picking()}>
+        <MediaPicker
+          path={uploadPath()}
+          images
+          onSelect={file => insertImage(file.url, altFromFileName(file.name))}
+          onClose={() => setPicking(false)}
+        />
+      </Show>
+
+      <div class={`markdown-panes markdown-panes-${mode()}`}>
+        <textarea
+          class="input textarea markdown-editor"
+          {...props.field.props}
+          ref={element => {
+            textareaRef = element
+            ;(props.field.props.ref as (element: HTMLTextAreaElement) => void)(element)
+          }}
+          value={value()}
+          placeholder={props.metadata.placeholder || 'Write markdown...'}
+          rows={10}
+          onPaste={handlePaste}
+          onDragOver={handleDragOver}
+          onDrop={handleDrop}
+        />
+        <Show when={mode() !== 'write'}>
+          <div
+            class="markdown-preview"
+            innerHTML={markdownToHTML(value(), { imageSrc: actions.mediaPreview })}
+          />
+        </Show>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,15 @@
-import { For, Show, createSignal } from 'solid-js'
+import { For, Show, createMemo, createSignal } from 'solid-js'
 import { type MediaFile } from '../backend/types'
 import { useCMS } from './context'
+import { isImageFile, mediaFolder, mediaFolders, movedMediaPath, normalizeFolder } from './media'
+import { MediaUploader } from './MediaUploader'
+
+// Folder filter showing every file, whatever its folder
+const ALL_FILES = '*'
+
+const parentFolder = (folder: string) => folder.split('/').slice(0, -1).join('/')
+
+const folderName = (folder: string) => folder.split('/').pop()!
 
 /**
  * Media library for viewing and managing uploaded files
@@ -9,9 +18,33 @@ import { useCMS } from './context'
 export function MediaLibrary() {
   const [state, actions] = useCMS()
   const [deleting, setDeleting] = createSignal<string | null>(null)
+  const [moving, setMoving] = createSignal(false)
+  const [bulkDeleting, setBulkDeleting] = createSignal(false)
+  const [folder, setFolder] = createSignal(ALL_FILES)
+  const [unusedOnly, setUnusedOnly] = createSignal(false)
+  const [selected, setSelected] = createSignal<ReadonlySet<string>>(new Set())
+
+  const folders = createMemo(() => mediaFolders(state.media.files, state.media.folders))
+
+  const unused = createMemo(() => new Set(actions.getUnusedMedia().map(file => file.path)))
+
+  const files = createMemo(() =>
+    state.media.files.filter(
+      file =>
+        (folder() === ALL_FILES || mediaFolder(file) === folder()) &&
+        (!unusedOnly() || unused().has(file.path)),
+    ),
+  )
 
-  const isImage = (name: string) => {
-    return /\.(jpg|jpeg|png|gif|webp|svg|ico)$/i.test(name)
+  // Selected files that still exist - deleted or moved ones drop out
+  const selectedFiles = createMemo(() =>
+    state.media.files.filter(file => selected().has(file.path)),
+  )
+
+  const toggleSelected = (file: MediaFile) => {
+    const next = new Set(selected())
+    if (!next.delete(file.path)) next.add(file.path)
+    setSelected(next)
   }
 
   const formatSize = (bytes: number) => {
@@ -21,7 +54,7 @@ export function MediaLibrary() {
   }
 
   const handleDelete = async (file: MediaFile) => {
-    const references = actions.getMediaReferences(file.url)
+    const references = actions.getMediaReferences(file)
     const refCount = references.length
 
     const message =
@@ -39,12 +72,167 @@ export function MediaLibrary() {
     }
   }
 
+  const handleDeleteSelected = async () => {
+    const targets = selectedFiles()
+    const refCount = targets.reduce(
+      (count, file) => count + actions.getMediaReferences(file).length,
+      0,
+    )
+
+    const message =
+      `Delete ${targets.length} file${targets.length > 1 ? 's' : ''}?` +
+      (refCount > 0
+        ? ` This will also remove ${refCount} reference${refCount > 1 ? 's' : ''} from your content.`
+        : '')
+
+    if (!confirm(message)) return
+
+    setBulkDeleting(true)
+    try {
+      await actions.deleteMediaFiles(targets)
+      setSelected(new Set<string>())
+    } catch (err) {
+      console.error('Delete failed:', err)
+      alert('Delete failed: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setBulkDeleting(false)
+    }
+  }
+
+  const move = async (moves: Array<{ path: string; to: string }>) => {
+    setMoving(true)
+    try {
+      await actions.moveMedia(moves)
+    } catch (err) {
+      console.error('Move failed:', err)
+      alert('Move failed: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setMoving(false)
+    }
+  }
+
+  const moveFile = (file: MediaFile, target: string) =>
+    move([{ path: file.path, to: movedMediaPath(file, target) }])
+
+  const handleRename = (file: MediaFile) => {
+    const name = prompt('New file name', file.name)?.trim()
+    if (!name || name === file.name) return
+    if (name.includes('/')) return alert('File names cannot contain "/" - use Move instead')
+    if (name === '.' || name === '..') return alert(`"${name}" is not a valid file name`)
+    move([{ path: file.path, to: movedMediaPath(file, mediaFolder(file), name) }])
+  }
+
+  const handleNewFolder = () => {
+    const parent = folder() === ALL_FILES ? '' : folder()
+    const name = normalizeFolder(prompt(`New folder in uploads/${parent}`) ?? '')
+    if (!name) return
+    const created = parent ? `${parent}/${name}` : name
+    actions.createMediaFolder(created)
+    setFolder(created)
+  }
+
+  const handleRenameFolder = async () => {
+    const current = folder()
+    const renamed = normalizeFolder(prompt('Rename or move folder', current) ?? '')
+    if (!renamed || renamed === current) return
+
+    setMoving(true)
+    try {
+      await actions.moveMediaFolder(current, renamed)
+      setFolder(renamed)
+    } catch (err) {
+      console.error('Move failed:', err)
+      alert('Move failed: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setMoving(false)
+    }
+  }
+
+  const handleDropOnFolder = (e: DragEvent, target: string) => {
+    const path = e.dataTransfer?.getData('application/x-plasticine-media')
+    const file = state.media.files.find(f => f.path === path)
+    if (!file) return
+    e.preventDefault()
+    if (mediaFolder(file) !== target) moveFile(file, target)
+  }
+
+  const FolderNode = (props: { folder: string; depth: number }) => {
+    const children = () => folders().filter(name => parentFolder(name) === props.folder)
+    const count = () => state.media.files.filter(file => mediaFolder(file) === props.folder).length
+
+    return (
+      <>
+        <button
+          type="button"
+          class="media-folder"
+          classList={{ active: folder() === props.folder }}
+          style={{ 'padding-left': `${0.75 + props.depth * 0.75}rem` }}
+          onClick={() => setFolder(props.folder)}
+          onDragOver={e => e.preventDefault()}
+          onDrop={e => handleDropOnFolder(e, props.folder)}
+        >
+          <span class="media-folder-name">
+            {props.folder ? folderName(props.folder) : 'uploads'}
+          </span>
+          <span class="media-nav-count">{count()}</span>
+        </button>
+        <For each={children()}>
+          {child => <FolderNode folder={child} depth={props.depth + 1} />}
+        </For>
+      </>
+    )
+  }
+
   return (
     <div class="media-library">
       <div class="media-library-header">
         <h2 class="media-library-title">Media Library</h2>
+        <div class="media-library-actions">
+          <Show when={selectedFiles().length > 0}>
+            <span class="media-selection">{selectedFiles().length} selected</span>
+            <button
+              type="button"
+              class="btn btn-secondary btn-small"
+              onClick={() => setSelected(new Set<string>())}
+            >
+              Clear
+            </button>
+            <button
+              type="button"
+              class="btn btn-danger btn-small"
+              onClick={handleDeleteSelected}
+              disabled={bulkDeleting()}
+            >
+              {bulkDeleting() ? 'Deleting...' : 'Delete selected'}
+            </button>
+          </Show>
+          <Show when={files().length > 0}>
+            <button
+              type="button"
+              class="btn btn-secondary btn-small"
+              onClick={() => setSelected(new Set([...selected(), ...files().map(f => f.path)]))}
+            >
+              Select all
+            </button>
+          </Show>
+          <Show when={folder() !== ALL_FILES && folder() !== ''}>
+            <button
+              type="button"
+              class="btn btn-secondary btn-small"
+              onClick={handleRenameFolder}
+              disabled={moving()}
+            >
+              Rename folder
+            </button>
+          </Show>
+          <button type="button" class="btn btn-secondary btn-small" onClick={handleNewFolder}>
+            + New folder
+          </button>
+        </div>
       </div>
 
+      <MediaUploader folder={folder() === ALL_FILES ? '' : folder()} />
+
       <Show when={state.media.loading}>
         <div class="media-library-loading">Loading media...</div>
       </Show>
@@ -53,60 +241,141 @@ export function MediaLibrary() {
         <div class="media-library-error">{state.media.error}</div>
       </Show>
 
-      <Show when={!state.media.loading && state.media.files.length === 0}>
-        <div class="media-library-empty">
-          No media files yet. Upload files through content fields.
-        </div>
-      </Show>
+      <div class="media-library-body">
+        <nav class="media-folders">
+          <button
+            type="button"
+            class="media-folder"
+            classList={{ active: folder() === ALL_FILES }}
+            onClick={() => setFolder(ALL_FILES)}
+          >
+            <span class="media-folder-name">All files</span>
+            <span class="media-nav-count">{state.media.files.length}</span>
+          </button>
+          <button
+            type="button"
+            class="media-folder"
+            classList={{ active: unusedOnly() }}
+            title="Files no content references - combine with a folder"
+            onClick={() => setUnusedOnly(!unusedOnly())}
+          >
+            <span class="media-folder-name">Unused</span>
+            <span class="media-nav-count">{unused().size}</span>
+          </button>
+          <FolderNode folder="" depth={0} />
+        </nav>
 
-      <div class="media-grid">
-        <For each={state.media.files}>
-          {file => {
-            const references = () => actions.getMediaReferences(file.url)
-
-            return (
-              <div class="media-item" classList={{ deleting: deleting() === file.path }}>
-                <div class="media-preview">
-                  <Show
-                    when={isImage(file.name)}
-                    fallback={
-                      <div class="media-file-icon">
-                        <span class="media-file-ext">
-                          {file.name.split('.').pop()?.toUpperCase()}
-                        </span>
-                      </div>
+        <div class="media-library-files" classList={{ moving: moving() }}>
+          <Show when={!state.media.loading && files().length === 0}>
+            <div class="media-library-empty">
+              {state.media.files.length === 0
+                ? 'No media files yet. Drop files above to upload them.'
+                : unusedOnly()
+                  ? 'Every file here is used by your content.'
+                  : 'This folder is empty.'}
+            </div>
+          </Show>
+
+          <div class="media-grid">
+            <For each={files()}>
+              {file => {
+                const references = () => actions.getMediaReferences(file)
+
+                return (
+                  <div
+                    class="media-item"
+                    classList={{
+                      deleting:
+                        deleting() === file.path || (bulkDeleting() && selected().has(file.path)),
+                      selected: selected().has(file.path),
+                    }}
+                    draggable={true}
+                    onDragStart={e =>
+                      e.dataTransfer?.setData('application/x-plasticine-media', file.path)
                     }
                   >
-                    <img src={file.url} alt={file.name} loading="lazy" />
-                  </Show>
-                </div>
-
-                <div class="media-info">
-                  <span class="media-name" title={file.name}>
-                    {file.name}
-                  </span>
-                  <span class="media-meta">
-                    {formatSize(file.size)}
-                    <Show when={references().length > 0}>
-                      {' · '}
-                      {references().length} ref
-                      {references().length > 1 ? 's' : ''}
-                    </Show>
-                  </span>
-                </div>
-
-                <button
-                  class="media-delete btn btn-danger btn-small"
-                  onClick={() => handleDelete(file)}
-                  disabled={deleting() === file.path}
-                  title="Delete file"
-                >
-                  {deleting() === file.path ? '...' : '×'}
-                </button>
-              </div>
-            )
-          }}
-        </For>
+                    <input
+                      type="checkbox"
+                      class="media-select"
+                      title="Select"
+                      checked={selected().has(file.path)}
+                      onChange={() => toggleSelected(file)}
+                    />
+                    <div class="media-preview">
+                      <Show
+                        when={isImageFile(file.name)}
+                        fallback={
+                          <div class="media-file-icon">
+                            <span class="media-file-ext">
+                              {file.name.split('.').pop()?.toUpperCase()}
+                            </span>
+                          </div>
+                        }
+                      >
+                        <img src={file.url} alt={file.name} loading="lazy" />
+                      </Show>
+                    </div>
+
+                    <div class="media-info">
+                      <span class="media-name" title={file.path}>
+                        {file.name}
+                      </span>
+                      <span class="media-meta">
+                        {formatSize(file.size)}
+                        <Show when={references().length > 0}>
+                          {' · '}
+                          {references().length} ref
+                          {references().length > 1 ? 's' : ''}
+                        </Show>
+                      </span>
+                      <div class="media-item-actions">
+                        <button
+                          type="button"
+                          class="btn btn-secondary btn-small"
+                          onClick={() => handleRename(file)}
+                          disabled={moving()}
+                        >
+                          Rename
+                        </button>
+                        <select
+                          class="input select media-move"
+                          value=""
+                          disabled={moving()}
+                          onChange={e => {
+                            const target = e.currentTarget.value
+                            e.currentTarget.value = ''
+                            if (target !== '') moveFile(file, target === '/' ? '' : target)
+                          }}
+                        >
+                          <option value="">Move to...</option>
+                          <option value="/" disabled={mediaFolder(file) === ''}>
+                            uploads/
+                          </option>
+                          <For each={folders()}>
+                            {name => (
+                              <option value={name} disabled={mediaFolder(file) === name}>
+                                uploads/{name}/
+                              </option>
+                            )}
+                          </For>
+                        </select>
+                      </div>
+                    </div>
+
+                    <button
+                      class="media-delete btn btn-danger btn-small"
+                      onClick={() => handleDelete(file)}
+                      disabled={deleting() === file.path}
+                      title="Delete file"
+                    >
+                      {deleting() === file.path ? '...' : '×'}
+                    </button>
+                  </div>
+                )
+              }}
+            </For>
+          </div>
+        </div>
       </div>
     </div>
   )
@@ -0,0 +1,164 @@
+import { createMemo, createSignal, For, onMount, Show } from 'solid-js'
+import type { MediaFile } from '../backend/types'
+import type { ImageProcessingOptions } from '../config/fields'
+import { useCMS } from './context'
+import { isImageFile, mediaFolder, mediaFolders } from './media'
+
+interface MediaPickerProps {
+  /** Folder shown first and uploaded into, relative to media.path */
+  path?: string
+  /** Only list images */
+  images?: boolean
+  /** File types the upload button accepts */
+  accept?: string
+  /** Processing of uploaded images, over the config's defaults */
+  processing?: ImageProcessingOptions
+  onSelect: (file: MediaFile) => void
+  onClose: () => void
+}
+
+/**
+ * Dialog to pick a file from the media library, or upload a new one (staged with the item)
+ */
+export function MediaPicker(props: MediaPickerProps) {
+  const [state, actions] = useCMS()
+  const [folder, setFolder] = createSignal(props.path ?? '')
+  const [query, setQuery] = createSignal('')
+  const [selected, setSelected] = createSignal<MediaFile | null>(null)
+  const [uploading, setUploading] = createSignal(false)
+  let dialogRef: HTMLDialogElement | undefined
+
+  onMount(() => dialogRef!.showModal())
+
+  const folders = createMemo(() =>
+    mediaFolders(state.media.files, [...state.media.folders, props.path ?? '']),
+  )
+
+  const files = createMemo(() => {
+    const search = query().trim().toLowerCase()
+    return state.media.files.filter(
+      file =>
+        (!props.images || isImageFile(file.name)) &&
+        (folder() === '*' || mediaFolder(file) === folder()) &&
+        (!search || file.name.toLowerCase().includes(search)),
+    )
+  })
+
+  const choose = (file: MediaFile) => {
+    props.onSelect(file)
+    dialogRef!.close()
+  }
+
+  const handleUpload = async (e: Event) => {
+    const input = e.target as HTMLInputElement
+    const file = input.files?.[0]
+    if (!file) return
+
+    setUploading(true)
+    try {
+      const target = folder() === '*' ? props.path : folder() || undefined
+      choose(await actions.stageUpload(file, target, { image: props.processing }))
+    } catch (err) {
+      console.error('Upload failed:', err)
+      alert('Upload failed: ' + (err instanceof Error ? err.message : 'Unknown error'))
+    } finally {
+      setUploading(false)
+      input.value = ''
+    }
+  }
+
+  return (
+    <dialog
+      ref={dialogRef}
+      class="media-picker"
+      onClose={() => props.onClose()}
+      onClick={e => e.target === dialogRef && dialogRef.close()}
+    >
+      <div class="media-picker-header">
+        <h3 class="media-picker-title">{props.images ? 'Choose image' : 'Choose file'}</h3>
+        <button
+          type="button"
+          class="btn btn-small btn-secondary"
+          onClick={() => dialogRef!.close()}
+        >
+          ×
+        </button>
+      </div>
+
+      <div class="media-picker-toolbar">
+        <select
+          class="input select"
+          value={folder()}
+          onChange={e => setFolder(e.currentTarget.value)}
+        >
+          <option value="*">All folders</option>
+          <option value="">uploads/</option>
+          <For each={folders()}>{name => <option value={name}>uploads/{name}/</option>}</For>
+        </select>
+        <input
+          type="search"
+          class="input"
+          placeholder="Search..."
+          value={query()}
+          onInput={e => setQuery(e.currentTarget.value)}
+        />
+        <label class="btn btn-secondary upload-btn">
+          {uploading() ? 'Uploading...' : 'Upload'}
+          <input
+            type="file"
+            accept={props.accept ?? (props.images ? 'image/*' : undefined)}
+            onChange={handleUpload}
+            style={{ display: 'none' }}
+            disabled={uploading()}
+          />
+        </label>
+      </div>
+
+      <div class="media-picker-grid">
+        <For
+          each={files()}
+          fallback={
+            <span class="media-picker-empty">
+              {state.media.loading ? 'Loading media...' : 'No matching files'}
+            </span>
+          }
+        >
+          {file => (
+            <button
+              type="button"
+              class="media-picker-item"
+              classList={{ selected: selected()?.path === file.path }}
+              title={file.path}
+              onClick={() => setSelected(file)}
+              onDblClick={() => choose(file)}
+            >
+              <Show
+                when={isImageFile(file.name)}
+                fallback={
+                  <span class="media-file-ext">{file.name.split('.').pop()?.toUpperCase()}</span>
+                }
+              >
+                <img src={file.url} alt={file.name} loading="lazy" />
+              </Show>
+              <span class="media-picker-name">{file.name}</span>
+            </button>
+          )}
+        </For>
+      </div>
+
+      <div class="media-picker-footer">
+        <button type="button" class="btn btn-secondary" onClick={() => dialogRef!.close()}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          class="btn btn-primary"
+          disabled={!selected()}
+          onClick={() => choose(selected()!)}
+        >
+          Select
+        </button>
+      </div>
+    </dialog>
+  )
+}
@@ -0,0 +1,235 @@
+import { createEffect, createMemo, createSignal, For, Show } from 'solid-js'
+import { createStore, produce } from 'solid-js/store'
+import { useCMS } from './context'
+import { mediaFolders, normalizeFolder } from './media'
+
+type UploadStatus = 'queued' | 'uploading' | 'done' | 'error' | 'cancelled'
+
+interface UploadEntry {
+  id: number
+  file: File
+  folder?: string
+  status: UploadStatus
+  loaded: number
+  /** Bytes sent in all - differs from the file size after image processing or encoding */
+  total: number
+  error?: string
+}
+
+interface MediaUploaderProps {
+  /** Folder to upload into, relative to media.path - the user can still change it */
+  folder?: string
+  /** Uploads running at once (default 1) - GitHub rejects parallel commits to a branch */
+  concurrency?: number
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  done: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+}
+
+/**
+ * Drop zone and queue for uploading many files into the media library
+ */
+export function MediaUploader(props: MediaUploaderProps) {
+  const [state, actions] = useCMS()
+  const [uploads, setUploads] = createStore<UploadEntry[]>([])
+  const [folder, setFolder] = createSignal('')
+  createEffect(() => setFolder(props.folder ?? ''))
+  const [dragging, setDragging] = createSignal(false)
+  const controllers = new Map<number, AbortController>()
+  let nextId = 0
+
+  const folders = createMemo(() => mediaFolders(state.media.files, state.media.folders))
+
+  const update = (id: number, fn: (entry: UploadEntry) => void) =>
+    setUploads(
+      produce(entries => {
+        const entry = entries.find(entry => entry.id === id)
+        if (entry) fn(entry)
+      }),
+    )
+
+  const upload = async (entry: UploadEntry) => {
+    const controller = new AbortController()
+    controllers.set(entry.id, controller)
+    update(entry.id, entry => {
+      entry.status = 'uploading'
+      entry.loaded = entry.total = 0
+      entry.error = undefined
+    })
+
+    try {
+      await actions.uploadFile(entry.file, entry.folder, {
+        signal: controller.signal,
+        onProgress: (loaded, total) =>
+          update(entry.id, entry => {
+            entry.loaded = loaded
+            entry.total = total
+          }),
+      })
+      update(entry.id, entry => {
+        entry.status = 'done'
+        entry.loaded = entry.total = 1
+      })
+    } catch (err) {
+      update(entry.id, entry => {
+        if (controller.signal.aborted) {
+          entry.status = 'cancelled'
+        } else {
+          entry.status = 'error'
+          entry.error = err instanceof Error ? err.message : 'Unknown error'
+        }
+      })
+    } finally {
+      controllers.delete(entry.id)
+      pump()
+    }
+  }
+
+  /**
+   * Start queued uploads while there's room
+   */
+  const pump = () => {
+    const limit = props.concurrency ?? 1
+    const running = uploads.filter(entry => entry.status === 'uploading').length
+    const queued = uploads.filter(entry => entry.status === 'queued')
+    for (const entry of queued.slice(0, Math.max(0, limit - running))) upload(entry)
+  }
+
+  const addFiles = (files: FileList | null | undefined) => {
+    if (!files?.length) return
+    const target = normalizeFolder(folder()) || undefined
+    setUploads(
+      produce(entries => {
+        for (const file of files) {
+          entries.push({
+            id: nextId++,
+            file,
+            folder: target,
+            status: 'queued',
+            loaded: 0,
+            total: 0,
+          })
+        }
+      }),
+    )
+    pump()
+  }
+
+  const retry = (id: number) => {
+    update(id, entry => {
+      entry.status = 'queued'
+      entry.loaded = entry.total = 0
+      entry.error = undefined
+    })
+    pump()
+  }
+
+  const cancel = (entry: UploadEntry) => {
+    if (entry.status === 'uploading') controllers.get(entry.id)?.abort()
+    else update(entry.id, entry => (entry.status = 'cancelled'))
+  }
+
+  const clearFinished = () =>
+    setUploads(entries =>
+      entries.filter(entry => entry.status === 'queued' || entry.status === 'uploading'),
+    )
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault()
+    setDragging(false)
+    addFiles(e.dataTransfer?.files)
+  }
+
+  const progress = (entry: UploadEntry) =>
+    entry.total > 0 ? Math.round((entry.loaded / entry.total) * 100) : 0
+
+  return (
+    <div class="media-uploader">
+      <div
+        class="media-dropzone"
+        classList={{ dragging: dragging() }}
+        onDragOver={e => {
+          if (!e.dataTransfer?.types.includes('Files')) return
+          e.preventDefault()
+          setDragging(true)
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+      >
+        <span>Drop files here, or</span>
+        <label class="btn btn-secondary btn-small upload-btn">
+          Choose files
+          <input
+            type="file"
+            multiple
+            style={{ display: 'none' }}
+            onChange={e => {
+              addFiles(e.currentTarget.files)
+              e.currentTarget.value = ''
+            }}
+          />
+        </label>
+        <label class="media-dropzone-folder">
+          into uploads/
+          <input
+            class="input"
+            list="media-upload-folders"
+            placeholder="folder (optional)"
+            value={folder()}
+            onInput={e => setFolder(e.currentTarget.value)}
+          />
+          <datalist id="media-upload-folders">
+            <For each={folders()}>{name => <option value={name} />}</For>
+          </datalist>
+        </label>
+      </div>
+
+      <Show when={uploads.length > 0}>
+        <div class="media-upload-queue">
+          <For each={uploads}>
+            {entry => (
+              <div class={`media-upload media-upload-${entry.status}`}>
+                <span class="media-upload-name" title={entry.file.name}>
+                  {entry.folder ? `${entry.folder}/` : ''}
+                  {entry.file.name}
+                </span>
+                <progress class="media-upload-progress" max={100} value={progress(entry)} />
+                <span class="media-upload-status" title={entry.error}>
+                  {entry.status === 'uploading'
+                    ? `${progress(entry)}%`
+                    : (entry.error ?? STATUS_LABELS[entry.status])}
+                </span>
+                <Show when={entry.status === 'queued' || entry.status === 'uploading'}>
+                  <button
+                    type="button"
+                    class="btn btn-secondary btn-small"
+                    onClick={() => cancel(entry)}
+                  >
+                    Cancel
+                  </button>
+                </Show>
+                <Show when={entry.status === 'error' || entry.status === 'cancelled'}>
+                  <button
+                    type="button"
+                    class="btn btn-secondary btn-small"
+                    onClick={() => retry(entry.id)}
+                  >
+                    Retry
+                  </button>
+                </Show>
+              </div>
+            )}
+          </For>
+          <button type="button" class="btn btn-secondary btn-small" onClick={clearFinished}>
+            Clear finished
+          </button>
+        </div>
+      </Show>
+    </div>
+  )
+}
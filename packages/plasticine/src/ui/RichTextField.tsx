@@ -0,0 +1,422 @@
+import { createEffect, createSignal, For, Show, type Component } from 'solid-js'
+import { richTextToHTML, safeHref } from '../client/richtext'
+import {
+  normalizeRichTextInline,
+  type RichTextBlock,
+  type RichTextDocument,
+  type RichTextImage,
+  type RichTextInline,
+  type RichTextMark,
+} from '../config/richtext'
+import { useCMS } from './context'
+import type { FieldComponentProps } from './FieldComponents'
+import { altFromFileName } from './media'
+import { MediaPicker } from './MediaPicker'
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                  DOM to document                               */
+/*                                                                                */
+/**********************************************************************************/
+
+const BLOCK_TAGS = new Set([
+  'P',
+  'DIV',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'UL',
+  'OL',
+  'LI',
+  'BLOCKQUOTE',
+  'PRE',
+  'FIGURE',
+  'HR',
+])
+
+// Pasted HTML can carry these, their text isn't content
+const IGNORED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'TITLE', 'META'])
+
+const INLINE_MARKS: Record<string, RichTextMark['type']> = {
+  B: 'bold',
+  STRONG: 'bold',
+  I: 'italic',
+  EM: 'italic',
+  CODE: 'code',
+}
+
+function parseImage(element: HTMLImageElement): RichTextImage {
+  // Images shown from a local preview keep their url in data-src
+  const src = element.dataset.src ?? element.getAttribute('src') ?? ''
+  const image: RichTextImage = { type: 'image', src }
+  if (element.alt) image.alt = element.alt
+  if (element.title) image.title = element.title
+  return image
+}
+
+/**
+ * Read inline content, handing images (which are blocks in the document) to `onImage`
+ */
+function parseInline(
+  node: Node,
+  marks: RichTextMark[],
+  out: RichTextInline[],
+  onImage: (image: RichTextImage) => void,
+) {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent ?? '').replace(/[\t\n\r ]+/g, ' ').replace(/\u00a0/g, ' ')
+    out.push(marks.length > 0 ? { type: 'text', text, marks } : { type: 'text', text })
+    return
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return
+
+  const element = node as HTMLElement
+  const reference = element.dataset.reference
+  if (reference) {
+    const separator = reference.indexOf('/')
+    out.push({
+      type: 'reference',
+      collection: reference.slice(0, separator),
+      id: reference.slice(separator + 1),
+      label: element.textContent ?? undefined,
+    })
+    return
+  }
+
+  if (element.tagName === 'BR') {
+    out.push(marks.length > 0 ? { type: 'text', text: '\n', marks } : { type: 'text', text: '\n' })
+    return
+  }
+  if (element.tagName === 'IMG') return onImage(parseImage(element as HTMLImageElement))
+  if (IGNORED_TAGS.has(element.tagName)) return
+
+  let childMarks = marks
+  const markType = INLINE_MARKS[element.tagName]
+  // Some editors wrap pasted content in `<b style="font-weight: normal">`
+  const unstyled = markType === 'bold' && element.style.fontWeight === 'normal'
+  if (markType && !unstyled && !marks.some(mark => mark.type === markType)) {
+    childMarks = [...marks, { type: markType } as RichTextMark]
+  }
+  const href = element.tagName === 'A' ? element.getAttribute('href') : null
+  if (href) {
+    const link: RichTextMark = { type: 'link', href }
+    if (element.title) link.title = element.title
+    childMarks = [...childMarks.filter(mark => mark.type !== 'link'), link]
+  }
+
+  for (const child of element.childNodes) parseInline(child, childMarks, out, onImage)
+}
+
+/**
+ * Read the blocks of an element - loose inline content becomes a paragraph (or `wrap`)
+ */
+function parseBlocks(
+  parent: Node,
+  wrap: (children: RichTextInline[]) => RichTextBlock = children => ({
+    type: 'paragraph',
+    children,
+  }),
+): RichTextBlock[] {
+  const blocks: RichTextBlock[] = []
+  let inline: RichTextInline[] = []
+
+  const flush = () => {
+    const children = normalizeRichTextInline(inline)
+    if (children.length > 0) blocks.push(wrap(children))
+    inline = []
+  }
+  const onImage = (image: RichTextImage) => {
+    flush()
+    blocks.push(image)
+  }
+
+  for (const node of parent.childNodes) {
+    if (node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName)) {
+      flush()
+      blocks.push(...parseBlock(node as HTMLElement))
+    } else {
+      parseInline(node, [], inline, onImage)
+    }
+  }
+  flush()
+
+  return blocks
+}
+
+function parseBlock(element: HTMLElement): RichTextBlock[] {
+  const tag = element.tagName
+  if (/^H[1-6]$/.test(tag)) {
+    const level = Number(tag[1]) as 1 | 2 | 3 | 4 | 5 | 6
+    return parseBlocks(element, children => ({ type: 'heading', level, children }))
+  }
+
+  switch (tag) {
+    case 'UL':
+    case 'OL': {
+      const items = [...element.children]
+        .filter(child => child.tagName === 'LI')
+        .map(child => ({ type: 'list_item' as const, children: parseBlocks(child) }))
+      return items.length > 0 ? [{ type: 'list', ordered: tag === 'OL', items }] : []
+    }
+    case 'BLOCKQUOTE':
+      return [{ type: 'blockquote', children: parseBlocks(element) }]
+    case 'HR':
+      return [{ type: 'divider' }]
+    case 'PRE': {
+      const language = /language-(\S+)/.exec(element.querySelector('code')?.className ?? '')?.[1]
+      const text = (element.textContent ?? '').replace(/\n$/, '')
+      return [language ? { type: 'code_block', language, text } : { type: 'code_block', text }]
+    }
+    default:
+      return parseBlocks(element)
+  }
+}
+
+/**
+ * Read a rich text document from HTML, keeping only what the document can represent
+ */
+export function parseRichText(root: Node): RichTextDocument {
+  return { type: 'doc', children: parseBlocks(root) }
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                     Editor                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+
+/**
+ * Show images whose upload isn't committed yet from their local preview
+ */
+function showPreviews(element: HTMLElement, preview: (url: string) => string) {
+  for (const image of element.querySelectorAll<HTMLImageElement>('img:not([data-src])')) {
+    const src = image.getAttribute('src') ?? ''
+    if (preview(src) === src) continue
+    image.dataset.src = src
+    image.src = preview(src)
+  }
+}
+
+/**
+ * Render a document for editing - references are atomic chips
+ */
+function renderEditable(
+  element: HTMLElement,
+  doc: RichTextDocument | undefined,
+  preview: (url: string) => string,
+) {
+  element.innerHTML = richTextToHTML(doc)
+  for (const reference of element.querySelectorAll<HTMLElement>('[data-reference]')) {
+    reference.contentEditable = 'false'
+  }
+  showPreviews(element, preview)
+}
+
+export const RichTextField: Component<FieldComponentProps> = props => {
+  const [state, actions] = useCMS()
+  const [panel, setPanel] = createSignal<'image' | 'reference' | null>(null)
+  const [referenceCollection, setReferenceCollection] = createSignal('')
+  let editorRef: HTMLDivElement | undefined
+  let savedRange: Range | undefined
+
+  const references = () => (props.metadata.references as string[] | undefined) ?? []
+
+  // The last document the editor emitted - other changes (a reset, media moves) are rendered
+  let emitted: string | undefined
+
+  createEffect(() => {
+    const input = props.field.input as RichTextDocument | undefined
+    if (JSON.stringify(input) !== emitted) renderEditable(editorRef!, input, actions.mediaPreview)
+  })
+
+  const update = () => {
+    const doc = parseRichText(editorRef!)
+    emitted = JSON.stringify(doc)
+    props.setInput(doc)
+  }
+
+  const command = (name: string, value?: string) => {
+    editorRef!.focus()
+    document.execCommand(name, false, value)
+    update()
+  }
+
+  const toggleCode = () => {
+    const selection = window.getSelection()
+    if (!selection?.rangeCount) return
+    const range = selection.getRangeAt(0)
+    const container = range.commonAncestorContainer
+    if (!editorRef!.contains(container)) return
+
+    // Inside code - unwrap it
+    const parent = container instanceof Element ? container : container.parentElement
+    const enclosing = parent?.closest('code')
+    if (enclosing && editorRef!.contains(enclosing)) {
+      enclosing.replaceWith(...enclosing.childNodes)
+      update()
+      return
+    }
+    if (selection.isCollapsed) return
+
+    // Selection holding code - unwrap that, otherwise wrap the selection
+    const contents = range.extractContents()
+    const codes = contents.querySelectorAll('code')
+    if (codes.length > 0) {
+      for (const code of codes) code.replaceWith(...code.childNodes)
+      range.insertNode(contents)
+    } else {
+      const code = document.createElement('code')
+      code.appendChild(contents)
+      range.insertNode(code)
+    }
+    update()
+  }
+
+  const addLink = () => {
+    const href = prompt('Link URL (leave empty to remove the link)')
+    if (href === null) return
+    command(href ? 'createLink' : 'unlink', href ? safeHref(href) : undefined)
+  }
+
+  // Panels take focus away from the editor - insert where the cursor was
+  const openPanel = (name: 'image' | 'reference') => {
+    const selection = window.getSelection()
+    const range = selection?.rangeCount ? selection.getRangeAt(0) : undefined
+    savedRange = range && editorRef!.contains(range.commonAncestorContainer) ? range : undefined
+    setReferenceCollection(references()[0] ?? '')
+    setPanel(panel() === name ? null : name)
+  }
+
+  const insertHTML = (html: string) => {
+    editorRef!.focus()
+    const selection = window.getSelection()
+    if (savedRange && selection) {
+      selection.removeAllRanges()
+      selection.addRange(savedRange)
+    }
+    document.execCommand('insertHTML', false, html)
+    for (const reference of editorRef!.querySelectorAll<HTMLElement>('[data-reference]')) {
+      reference.contentEditable = 'false'
+    }
+    showPreviews(editorRef!, actions.mediaPreview)
+    setPanel(null)
+    update()
+  }
+
+  const insertImage = (url: string, alt = '') => {
+    insertHTML(`<img src="${escapeAttribute(url)}" alt="${escapeAttribute(alt)}">`)
+  }
+
+  const insertReference = (collection: string, id: string) => {
+    const item = state.collections[collection]?.items.find(item => item.id === id)
+    const label = (item?.data.name as string) || (item?.data.title as string) || id
+    const span = document.createElement('span')
+    span.dataset.reference = `${collection}/${id}`
+    span.textContent = label
+    insertHTML(`${span.outerHTML}&nbsp;`)
+  }
+
+  // Pasted content goes through the document model, dropping markup it can't represent
+  const handlePaste = (e: ClipboardEvent) => {
+    const html = e.clipboardData?.getData('text/html')
+    if (!html) return
+    e.preventDefault()
+    const template = document.createElement('template')
+    template.innerHTML = html
+    document.execCommand('insertHTML', false, richTextToHTML(parseRichText(template.content)))
+    showPreviews(editorRef!, actions.mediaPreview)
+    update()
+  }
+
+  const tool = (label: string, title: string, run: () => void) => (
+    <button
+      type="button"
+      class="richtext-tool"
+      title={title}
+      onMouseDown={e => e.preventDefault()}
+      onClick={run}
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <div class="richtext">
+      <div class="richtext-toolbar">
+        {tool('B', 'Bold', () => command('bold'))}
+        {tool('I', 'Italic', () => command('italic'))}
+        {tool('</>', 'Code', toggleCode)}
+        {tool('Link', 'Link', addLink)}
+        <span class="richtext-separator" />
+        {tool('P', 'Paragraph', () => command('formatBlock', '<p>'))}
+        {tool('H2', 'Heading', () => command('formatBlock', '<h2>'))}
+        {tool('H3', 'Subheading', () => command('formatBlock', '<h3>'))}
+        {tool('• List', 'Bulleted list', () => command('insertUnorderedList'))}
+        {tool('1. List', 'Numbered list', () => command('insertOrderedList'))}
+        {tool('❝', 'Quote', () => command('formatBlock', '<blockquote>'))}
+        {tool('{ }', 'Code block', () => command('formatBlock', '<pre>'))}
+        {tool('―', 'Divider', () => command('insertHorizontalRule'))}
+        <span class="richtext-separator" />
+        {tool('Image', 'Insert image', () => openPanel('image'))}
+        <Show when={references().length > 0}>
+          {tool('@ Reference', 'Insert reference', () => openPanel('reference'))}
+        </Show>
+      </div>
+
+      <Show when={panel() === 'image'}>
+        <MediaPicker
+          path={props.metadata.path as string | undefined}
+          images
+          onSelect={file => insertImage(file.url, altFromFileName(file.name))}
+          onClose={() => setPanel(null)}
+        />
+      </Show>
+
+      <Show when={panel() === 'reference'}>
+        <div class="richtext-panel">
+          <Show when={references().length > 1}>
+            <select
+              class="input select"
+              value={referenceCollection()}
+              onChange={e => setReferenceCollection(e.currentTarget.value)}
+            >
+              <For each={references()}>
+                {collection => <option value={collection}>{collection}</option>}
+              </For>
+            </select>
+          </Show>
+          <select
+            class="input select"
+            value=""
+            onChange={e => insertReference(referenceCollection(), e.currentTarget.value)}
+          >
+            <option value="">Select {referenceCollection()}...</option>
+            <For each={state.collections[referenceCollection()]?.items ?? []}>
+              {item => (
+                <option value={item.id}>
+                  {(item.data.name as string) || (item.data.title as string) || item.id}
+                </option>
+              )}
+            </For>
+          </select>
+        </div>
+      </Show>
+
+      <div
+        ref={editorRef}
+        class="input richtext-editor"
+        contentEditable
+        data-placeholder={props.metadata.placeholder || 'Write something...'}
+        onInput={update}
+        onBlur={update}
+        onPaste={handlePaste}
+      />
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
-import { createForm, Form } from '@formisch/solid'
-import { For, Show } from 'solid-js'
-import type * as v from 'valibot'
+import { createForm, Form, getInput, setErrors } from '@formisch/solid'
+import { createEffect, createSignal, For, on, Show } from 'solid-js'
+import * as v from 'valibot'
 import { getSchemaEntries } from '../config/schema'
+import { ItemValidationError, toFieldIssues, type FieldIssue } from '../config/validate'
 import { DynamicField } from './FieldComponents'
 
 interface SchemaFormProps {
@@ -11,7 +12,8 @@ interface SchemaFormProps {
   onCancel?: () => void
   submitLabel?: string
   pending?: boolean
-  error?: string
+  /** Error of the last submission - an `ItemValidationError` marks the offending fields */
+  error?: unknown
 }
 
 /**
@@ -23,15 +25,85 @@ export function SchemaForm(props: SchemaFormProps) {
     values: props.initialData,
   } as any)
 
+  const [issues, setIssues] = createSignal<Array<FieldIssue & { label: string }>>([])
+  let fieldsRef: HTMLDivElement | undefined
+
   const entries = () => getSchemaEntries(props.schema)
 
+  /**
+   * Element of the field an issue belongs to, or of its closest rendered parent
+   */
+  const findField = (issue: FieldIssue) => {
+    for (let length = issue.keys.length; length > 0; length--) {
+      const path = CSS.escape(issue.keys.slice(0, length).join('.'))
+      const element = fieldsRef?.querySelector<HTMLElement>(`[data-path="${path}"]`)
+      if (element) return element
+    }
+    return undefined
+  }
+
+  const scrollToIssue = (issue: FieldIssue) => {
+    const element = findField(issue)
+    if (!element) return
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    element.querySelector<HTMLElement>('input, textarea, select')?.focus({ preventScroll: true })
+  }
+
+  const showIssues = (fieldIssues: FieldIssue[]) => {
+    setIssues(
+      fieldIssues.map(issue => ({
+        ...issue,
+        label: findField(issue)?.querySelector('.field-label')?.textContent || issue.path || 'Item',
+      })),
+    )
+    if (fieldIssues.length > 0) scrollToIssue(fieldIssues[0])
+  }
+
+  // The form checks its own schema before submitting - list what it found
+  createEffect(
+    on(
+      () => form.isSubmitting,
+      submitting => {
+        if (submitting) return setIssues([])
+        const result = v.safeParse(props.schema, getInput(form))
+        if (!result.success) showIssues(toFieldIssues(result.issues))
+      },
+      { defer: true },
+    ),
+  )
+
+  // Saving validates again, against every version of the collection
+  createEffect(
+    on(
+      () => props.error,
+      error => {
+        if (!(error instanceof ItemValidationError)) return
+        for (const issue of error.issues) {
+          if (issue.keys.length === 0) continue
+          try {
+            setErrors(form, { path: issue.keys, errors: [issue.message] } as any)
+          } catch {
+            // Paths the form has no field for, like record entries, are only listed
+          }
+        }
+        showIssues(error.issues)
+      },
+    ),
+  )
+
+  const errorMessage = () => {
+    const error = props.error
+    if (!error || error instanceof ItemValidationError) return undefined
+    return error instanceof Error ? error.message : String(error)
+  }
+
   const handleSubmit = async (data: unknown) => {
     await props.onSubmit(data as Record<string, unknown>)
   }
 
   return (
     <Form of={form} onSubmit={handleSubmit} class="schema-form">
-      <div class="form-fields">
+      <div class="form-fields" ref={fieldsRef}>
         <For each={Object.entries(entries() || {})}>
           {([key, fieldSchema]) => (
             <DynamicField form={form} path={[key]} schema={fieldSchema as v.GenericSchema} />
@@ -39,8 +111,27 @@ export function SchemaForm(props: SchemaFormProps) {
         </For>
       </div>
 
-      <Show when={props.error}>
-        <div class="form-error">{props.error}</div>
+      <Show when={issues().length > 0}>
+        <div class="form-error form-issues">
+          <p>
+            {issues().length === 1 ? '1 field needs' : `${issues().length} fields need`} attention:
+          </p>
+          <ul>
+            <For each={issues()}>
+              {issue => (
+                <li>
+                  <button type="button" class="form-issue" onClick={() => scrollToIssue(issue)}>
+                    <strong>{issue.label}</strong> {issue.message}
+                  </button>
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Show>
+
+      <Show when={errorMessage()}>
+        <div class="form-error">{errorMessage()}</div>
       </Show>
 
       <div class="form-actions">
@@ -0,0 +1,162 @@
+import { useAction, useSubmissions } from '@solidjs/router'
+import { For, Show } from 'solid-js'
+import type { WorkflowEntry, WorkflowStatus } from '../backend/types'
+import type { PlasticineConfig } from '../config/define-config'
+import { discardEntryAction, publishEntryAction, setWorkflowStatusAction } from './actions'
+import { useCMS } from './context'
+import { Link } from './Link'
+
+const COLUMNS: Array<{ status: WorkflowStatus; title: string }> = [
+  { status: 'draft', title: 'Drafts' },
+  { status: 'review', title: 'In Review' },
+  { status: 'ready', title: 'Ready' },
+]
+
+/**
+ * Board of unpublished entries, grouped by workflow status
+ */
+export function WorkflowBoard(props: { config: PlasticineConfig<any> }) {
+  const [state, actions] = useCMS()
+
+  const setStatus = useAction(setWorkflowStatusAction)
+  const publish = useAction(publishEntryAction)
+  const discard = useAction(discardEntryAction)
+
+  const statusSubmissions = useSubmissions(setWorkflowStatusAction)
+  const publishSubmissions = useSubmissions(publishEntryAction)
+  const discardSubmissions = useSubmissions(discardEntryAction)
+
+  const entries = (status: WorkflowStatus) =>
+    state.workflow.entries.filter(entry => entry.status === status)
+
+  // Check if any workflow action is running for this entry
+  const isPending = (entry: WorkflowEntry) =>
+    [...statusSubmissions, ...publishSubmissions, ...discardSubmissions].some(
+      submission =>
+        submission.pending &&
+        submission.input[0] === entry.collection &&
+        submission.input[1] === entry.id,
+    )
+
+  const handleDiscard = (entry: WorkflowEntry) => {
+    if (!confirm('Discard this draft? Unpublished changes will be lost.')) return
+    discard(entry.collection, entry.id, actions)
+  }
+
+  return (
+    <div class="workflow-board">
+      <div class="workflow-board-header">
+        <h2 class="workflow-board-title">Workflow</h2>
+        <button
+          class="btn btn-secondary btn-small"
+          onClick={() => actions.loadWorkflow()}
+          disabled={state.workflow.loading}
+        >
+          {state.workflow.loading ? '...' : 'Refresh'}
+        </button>
+      </div>
+
+      <Show when={state.workflow.error}>
+        <div class="workflow-board-error">{state.workflow.error}</div>
+      </Show>
+
+      <div class="workflow-columns">
+        <For each={COLUMNS}>
+          {(column, index) => (
+            <section class="workflow-column">
+              <h3 class="workflow-column-title">
+                {column.title}
+                <span class="workflow-column-count">{entries(column.status).length}</span>
+              </h3>
+
+              <Show when={entries(column.status).length === 0}>
+                <div class="workflow-column-empty">Nothing here</div>
+              </Show>
+
+              <For each={entries(column.status)}>
+                {entry => (
+                  <div class="workflow-card" classList={{ pending: isPending(entry) }}>
+                    <Link
+                      params={{ collection: entry.collection, item: entry.id }}
+                      class="workflow-card-link"
+                    >
+                      <span class="workflow-card-title">
+                        {props.config.getItemTitle(entry.collection, entry)}
+                      </span>
+                      <span class="workflow-card-meta">
+                        {props.config.getLabel(entry.collection)} / {entry.id}
+                      </span>
+                    </Link>
+
+                    <div class="workflow-card-actions">
+                      <Show when={index() > 0}>
+                        <button
+                          class="btn btn-secondary btn-small"
+                          onClick={() =>
+                            setStatus(
+                              entry.collection,
+                              entry.id,
+                              COLUMNS[index() - 1].status,
+                              actions,
+                            )
+                          }
+                          disabled={isPending(entry)}
+                          title={`Move to ${COLUMNS[index() - 1].title}`}
+                        >
+                          ←
+                        </button>
+                      </Show>
+                      <Show when={index() < COLUMNS.length - 1}>
+                        <button
+                          class="btn btn-secondary btn-small"
+                          onClick={() =>
+                            setStatus(
+                              entry.collection,
+                              entry.id,
+                              COLUMNS[index() + 1].status,
+                              actions,
+                            )
+                          }
+                          disabled={isPending(entry)}
+                          title={`Move to ${COLUMNS[index() + 1].title}`}
+                        >
+                          →
+                        </button>
+                      </Show>
+                      <Show when={column.status === 'ready'}>
+                        <button
+                          class="btn btn-primary btn-small"
+                          onClick={() => publish(entry.collection, entry.id, actions)}
+                          disabled={isPending(entry)}
+                        >
+                          Publish
+                        </button>
+                      </Show>
+                      <Show when={entry.url}>
+                        <a
+                          class="btn btn-link btn-small"
+                          href={entry.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          PR
+                        </a>
+                      </Show>
+                      <button
+                        class="btn btn-danger btn-small"
+                        onClick={() => handleDiscard(entry)}
+                        disabled={isPending(entry)}
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </For>
+            </section>
+          )}
+        </For>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { action } from '@solidjs/router'
+import type { WorkflowStatus } from '../backend/types'
 import type { CMSActions } from './store'
 
 /**
@@ -16,11 +17,11 @@ export const saveItemAction = action(
   async (
     collection: string,
     data: Record<string, unknown>,
-    existingSha: string | undefined,
+    existing: { id: string; sha?: string } | undefined,
     cmsActions: CMSActions,
   ) => {
-    await cmsActions.saveItem(collection, data, existingSha)
-    return { ok: true }
+    const id = await cmsActions.saveItem(collection, data, existing)
+    return { ok: true, id }
   },
   'saveItem',
 )
@@ -40,3 +41,40 @@ export const deleteMediaAction = action(
   },
   'deleteMedia',
 )
+
+export const saveDraftAction = action(
+  async (
+    collection: string,
+    data: Record<string, unknown>,
+    existing: { id: string; sha?: string } | undefined,
+    cmsActions: CMSActions,
+  ) => {
+    const id = await cmsActions.saveDraft(collection, data, existing)
+    return { ok: true, id }
+  },
+  'saveDraft',
+)
+
+export const setWorkflowStatusAction = action(
+  async (collection: string, id: string, status: WorkflowStatus, cmsActions: CMSActions) => {
+    await cmsActions.setWorkflowStatus(collection, id, status)
+    return { ok: true }
+  },
+  'setWorkflowStatus',
+)
+
+export const publishEntryAction = action(
+  async (collection: string, id: string, cmsActions: CMSActions) => {
+    await cmsActions.publishEntry(collection, id)
+    return { ok: true }
+  },
+  'publishEntry',
+)
+
+export const discardEntryAction = action(
+  async (collection: string, id: string, cmsActions: CMSActions) => {
+    await cmsActions.discardEntry(collection, id)
+    return { ok: true }
+  },
+  'discardEntry',
+)
@@ -0,0 +1,76 @@
+import type { ImageProcessingOptions } from '../config/fields'
+
+// Formats canvas can decode and re-encode without losing anything (like GIF animation)
+const PROCESSABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+}
+
+/**
+ * Merge image options, later ones winning - unset options don't override earlier ones
+ */
+export function mergeImageOptions(
+  ...layers: Array<ImageProcessingOptions | undefined>
+): ImageProcessingOptions {
+  const merged: ImageProcessingOptions = {}
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer ?? {})) {
+      if (value !== undefined) (merged as Record<string, unknown>)[key] = value
+    }
+  }
+  return merged
+}
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality))
+
+/**
+ * Resize and re-encode an image in the browser. Files that aren't JPEG, PNG or WebP, or that
+ * need no change, are returned as is.
+ */
+export async function processImage(file: File, options: ImageProcessingOptions): Promise<File> {
+  if (!PROCESSABLE_TYPES.includes(file.type)) return file
+  // Nothing to do - don't decode the image at all
+  if (!options.maxWidth && !options.maxHeight && !options.format) return file
+
+  const bitmap = await createImageBitmap(file)
+  const { width, height } = bitmap
+  const scale = Math.min(
+    1,
+    (options.maxWidth ?? Infinity) / width,
+    (options.maxHeight ?? Infinity) / height,
+  )
+  const type = options.format ? `image/${options.format}` : file.type
+  if (scale === 1 && type === file.type) {
+    bitmap.close()
+    return file
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+  const context = canvas.getContext('2d')!
+  if (type === 'image/jpeg') {
+    // JPEG has no transparency - flatten onto white instead of black
+    context.fillStyle = '#fff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+  }
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  const quality = options.quality ?? 0.85
+  let blob = await toBlob(canvas, type, quality)
+  // Browsers that can't encode WebP hand back a PNG - JPEG is the smaller fallback
+  if (blob && blob.type !== type) blob = await toBlob(canvas, 'image/jpeg', quality)
+  if (!blob) throw new Error(`Could not encode ${file.name}`)
+
+  // Re-encoding a small image can make it larger - keep the original unless it was resized
+  if (scale === 1 && blob.size >= file.size) return file
+
+  const name = file.name.replace(/\.[^.]+$/, '') + '.' + EXTENSIONS[blob.type]
+  return new File([blob], name, { type: blob.type, lastModified: file.lastModified })
+}
@@ -0,0 +1,51 @@
+import type { MediaFile } from '../backend/types'
+
+const UPLOADS = /^(.*?(?:^|\/)uploads\/)(?:(.+)\/)?([^/]+)$/
+
+/**
+ * Whether a media file is an image, by its extension
+ */
+export const isImageFile = (name: string) => /\.(jpg|jpeg|png|gif|webp|svg|avif|ico)$/i.test(name)
+
+/**
+ * Alt text for an image, from its file name
+ */
+export const altFromFileName = (name: string) => name.replace(/\.[^.]+$/, '')
+
+/**
+ * Folder of a media file relative to media.path - '' for files at the top
+ */
+export const mediaFolder = (file: MediaFile) => UPLOADS.exec(file.path)?.[2] ?? ''
+
+/**
+ * Repo path of a media file once moved to `folder` (relative to media.path) and renamed to `name`
+ */
+export function movedMediaPath(file: MediaFile, folder: string, name = file.name): string {
+  const root = UPLOADS.exec(file.path)?.[1] ?? ''
+  return `${root}${folder ? `${folder}/` : ''}${name}`
+}
+
+/**
+ * Clean up a folder typed by a user: no leading, trailing or doubled slashes, and no `.` or `..`
+ * segments that would lead out of the uploads folder
+ */
+export const normalizeFolder = (folder: string) =>
+  folder
+    .split(/[/\\]/)
+    .map(part => part.trim())
+    .filter(part => part && part !== '.' && part !== '..')
+    .join('/')
+
+/**
+ * Every folder holding media, including the parents of nested folders, sorted
+ */
+export function mediaFolders(files: MediaFile[], extra: string[] = []): string[] {
+  const folders = new Set<string>()
+  for (const folder of [...files.map(mediaFolder), ...extra]) {
+    const parts = folder.split('/').filter(Boolean)
+    for (let index = 1; index <= parts.length; index++) {
+      folders.add(parts.slice(0, index).join('/'))
+    }
+  }
+  return [...folders].sort()
+}
@@ -1,8 +1,28 @@
+import { createMemo } from 'solid-js'
 import { createStore, produce } from 'solid-js/store'
 import type { AuthProvider, AuthResult } from '../auth/types'
-import type { Backend, BackendFactory, ContentItem, MediaFile } from '../backend/types'
+import type {
+  Backend,
+  BackendFactory,
+  Changeset,
+  ChangesetResult,
+  ContentItem,
+  MediaFile,
+  UploadOptions,
+  WorkflowEntry,
+  WorkflowStatus,
+} from '../backend/types'
 import type { PlasticineConfig } from '../config/define-config'
-import { getSchemaEntries, getSchemaMetadata } from '../config/schema'
+import type { ImageProcessingOptions } from '../config/fields'
+import {
+  findMediaReferences,
+  findUnusedMedia,
+  isMediaFileUrl,
+  replaceMediaReferences,
+} from '../config/media'
+import { parseItem } from '../config/validate'
+import { mergeImageOptions, processImage } from './images'
+import { mediaFolder, movedMediaPath } from './media'
 
 export interface CMSProps {
   config: PlasticineConfig<any>
@@ -18,6 +38,16 @@ export interface CollectionState {
 
 export interface MediaState {
   files: MediaFile[]
+  /** Folders created in this session - git only keeps them once they hold a file */
+  folders: string[]
+  loading: boolean
+  error: string | null
+}
+
+export interface WorkflowState {
+  /** Whether the backend has an editorial workflow */
+  enabled: boolean
+  entries: WorkflowEntry[]
   loading: boolean
   error: string | null
 }
@@ -50,12 +80,20 @@ export interface CMSState {
   // Schema
   schema: SchemaState
 
+  // Editorial workflow
+  workflow: WorkflowState
+
   // Navigation
-  currentView: 'collections' | 'media' | 'schema'
+  currentView: 'collections' | 'media' | 'schema' | 'workflow'
   currentCollection: string | null
   currentItem: string | null
 }
 
+export interface UploadFileOptions extends UploadOptions {
+  /** Processing of an uploaded image, over the config's `images` defaults */
+  image?: ImageProcessingOptions
+}
+
 export interface CMSActions {
   // Auth
   handleAuthSuccess(result: AuthResult): Promise<void>
@@ -65,22 +103,66 @@ export interface CMSActions {
   loadAllData(): Promise<void>
 
   // Collections
-  saveItem(collection: string, data: Record<string, unknown>, existingSha?: string): Promise<void>
+  /** Save an item, creating its id from the collection options when it is new - returns the id */
+  saveItem(
+    collection: string,
+    data: Record<string, unknown>,
+    existing?: { id: string; sha?: string },
+  ): Promise<string>
   deleteItem(collection: string, id: string, sha?: string): Promise<void>
 
   // Files
-  uploadFile(file: File, fieldPath?: string): Promise<string>
+  /** Upload a file in a commit of its own - returns its url */
+  uploadFile(file: File, fieldPath?: string, options?: UploadFileOptions): Promise<string>
+  /**
+   * Stage a file uploaded in the editor - it's committed together with the item that uses it.
+   * Returns the file as it will be once committed.
+   */
+  stageUpload(
+    file: File,
+    fieldPath?: string,
+    options?: Pick<UploadFileOptions, 'image'>,
+  ): Promise<MediaFile>
+  /** Where to show a media url from - a local preview while its upload is staged */
+  mediaPreview(url: string): string
+  /** Drop staged uploads, when the item they were made for isn't saved */
+  discardUploads(): void
 
   // Media
   deleteMedia(url: string, path: string, sha?: string): Promise<void>
-  getMediaReferences(url: string): Array<{ collection: string; id: string; field: string }>
+  /** Delete several files, clearing their references, in a single commit */
+  deleteMediaFiles(files: Array<{ url: string; path: string; sha?: string }>): Promise<void>
+  /** Move or rename files (`to` is the new repo path), rewriting references in the same commit */
+  moveMedia(moves: Array<{ path: string; to: string }>): Promise<void>
+  /** Rename or move a folder (relative to media.path) with everything in it */
+  moveMediaFolder(folder: string, to: string): Promise<void>
+  createMediaFolder(folder: string): void
+  /** Items using a file, by its url or any url ending with its repo path */
+  getMediaReferences(file: {
+    path: string
+    url: string
+  }): Array<{ collection: string; id: string; field: string }>
+  /** Files no content item references, in fields, rich text or markdown */
+  getUnusedMedia(): MediaFile[]
 
   // Schema
   loadSchema(): Promise<void>
   saveSchema(content: string): Promise<void>
 
+  // Editorial workflow
+  loadWorkflow(): Promise<void>
+  saveDraft(
+    collection: string,
+    data: Record<string, unknown>,
+    existing?: { id: string; sha?: string },
+  ): Promise<string>
+  setWorkflowStatus(collection: string, id: string, status: WorkflowStatus): Promise<void>
+  publishEntry(collection: string, id: string): Promise<void>
+  discardEntry(collection: string, id: string): Promise<void>
+  getWorkflowEntry(collection: string, id: string): WorkflowEntry | undefined
+
   // Navigation
-  setCurrentView(view: 'collections' | 'media' | 'schema'): void
+  setCurrentView(view: 'collections' | 'media' | 'schema' | 'workflow'): void
   setCurrentCollection(name: string | null): void
   setCurrentItem(id: string | null): void
 }
@@ -100,6 +182,9 @@ export function createCMSStore(props: CMSProps): CMSStore {
 
   const collectionNames = config.getCollections()
 
+  // Uploads made in the editor, waiting to be committed with the item
+  let stagedUploads: Array<MediaFile & { file: File; folder?: string; preview: string }> = []
+
   const [state, setState] = createStore<CMSState>({
     authenticated: false,
     user: null,
@@ -110,7 +195,7 @@ export function createCMSStore(props: CMSProps): CMSStore {
     collections: Object.fromEntries(
       collectionNames.map(name => [name, { items: [], loading: false, error: null }]),
     ),
-    media: { files: [], loading: false, error: null },
+    media: { files: [], folders: [], loading: false, error: null },
     schema: {
       content: '',
       sha: null,
@@ -118,36 +203,118 @@ export function createCMSStore(props: CMSProps): CMSStore {
       saving: false,
       error: null,
     },
+    workflow: { enabled: false, entries: [], loading: false, error: null },
     currentView: 'collections',
     currentCollection: null,
     currentItem: null,
   })
 
   /**
-   * Get media field names from a schema (fields with ui: "image" or "file")
+   * Where each media url is used, by url - `field` is the full path like `images.3.src`
    */
-  const getMediaFields = (collectionName: string): string[] => {
-    const schema = config.getSchema(collectionName)
-    if (!schema) return []
+  const mediaReferences = createMemo(() => {
+    const index = new Map<string, Array<{ collection: string; id: string; field: string }>>()
+
+    for (const collectionName of collectionNames) {
+      const schema = config.getSchema(collectionName)
+      for (const item of state.collections[collectionName]?.items ?? []) {
+        for (const { path, url } of findMediaReferences(schema, item.data)) {
+          const field = path.join('.')
+          const references = index.get(url) ?? []
+          // A markdown field linking the same file twice is one reference
+          if (references.some(ref => ref.id === item.id && ref.field === field)) continue
+          references.push({ collection: collectionName, id: item.id, field })
+          index.set(url, references)
+        }
+      }
+    }
 
-    const entries = getSchemaEntries(schema)
-    if (!entries) return []
+    return index
+  })
 
-    return Object.entries(entries)
-      .filter(([_, fieldSchema]) => {
-        const meta = getSchemaMetadata(fieldSchema)
-        return meta.ui === 'image' || meta.ui === 'file'
-      })
-      .map(([key]) => key)
-  }
+  const unusedMedia = createMemo(() => findUnusedMedia(state.media.files, mediaReferences().keys()))
 
-  const getId = (data: Record<string, unknown>): string => {
-    // Use slug field if present, otherwise fallback to timestamp
-    const value = data.slug ?? data.id
-    if (typeof value === 'string' && value) {
-      return value
+  /**
+   * Urls in the content that point at a file - the same match unused media is found with
+   */
+  const referencedUrls = (file: { path: string; url: string }) =>
+    [...mediaReferences().keys()].filter(url => isMediaFileUrl(url, file))
+
+  /**
+   * Queue saving every item that references one of the files, with the reference replaced by
+   * its new url (or cleared for undefined). Returns how to update local state after the commit.
+   */
+  const queueReferenceUpdates = (
+    changeset: Changeset,
+    replacements: Array<{ file: { path: string; url: string }; url?: string }>,
+  ) => {
+    // Every url written for a file is replaced, not only the file's own
+    const urls = new Map<string, string | undefined>()
+    for (const { file, url } of replacements) {
+      for (const referenced of referencedUrls(file)) urls.set(referenced, url)
+    }
+
+    const updates = new Map<
+      string,
+      { collection: string; id: string; sha?: string; data: Record<string, unknown> }
+    >()
+
+    for (const url of urls.keys()) {
+      for (const ref of mediaReferences().get(url) ?? []) {
+        const key = `${ref.collection}/${ref.id}`
+        const item = state.collections[ref.collection]?.items.find(i => i.id === ref.id)
+        if (!item || updates.has(key)) continue
+
+        // Every url the item uses is replaced at once, wherever it is nested
+        updates.set(key, {
+          collection: ref.collection,
+          id: ref.id,
+          // Locked on the loaded sha, so a teammate's edit to the item isn't overwritten
+          sha: item.sha,
+          data: replaceMediaReferences(config.getSchema(ref.collection), item.data, urls),
+        })
+      }
+    }
+
+    const parsedUpdates = [...updates.values()].map(update => ({
+      ...update,
+      data: config.parseCollection(update.collection, update.data) as Record<string, unknown>,
+    }))
+    for (const update of parsedUpdates) {
+      changeset.saveItem(
+        update.collection,
+        update.id,
+        config.stampVersion(update.collection, update.data),
+        update.sha,
+      )
+    }
+
+    return (s: CMSState, result: ChangesetResult) => {
+      for (const update of parsedUpdates) {
+        const item = s.collections[update.collection].items.find(i => i.id === update.id)
+        if (!item) continue
+        item.data = update.data
+        item.sha = result.items.find(
+          i => i.collection === update.collection && i.id === update.id,
+        )?.sha
+      }
     }
-    return Date.now().toString()
+  }
+
+  /**
+   * Queue the staged uploads an item uses into a changeset - the ones it doesn't use (replaced
+   * before saving) are dropped. Returns how many were queued.
+   */
+  const queueStagedUploads = (
+    changeset: Changeset,
+    collection: string,
+    data: Record<string, unknown>,
+  ) => {
+    const urls = findMediaReferences(config.getSchema(collection), data).map(ref => ref.url)
+    const uploads = stagedUploads.filter(upload => urls.some(url => isMediaFileUrl(url, upload)))
+    // Same names as when they were staged, so the urls in the item stay valid
+    for (const upload of uploads) changeset.uploadFile(upload.file, upload.folder, upload.name)
+    return uploads.length
   }
 
   /**
@@ -163,27 +330,71 @@ export function createCMSStore(props: CMSProps): CMSStore {
 
     const items = await backend.content.listCollection(name)
 
-    return items.map(item => {
+    const parsedItems = items.map(item => {
       // Parse through versioned config (auto-migrates)
       const parsed = config.parseCollection(name, item.data) as Record<string, unknown>
       return {
         ...item,
-        filename: `${item.id}.json`,
+        filename: `${item.id}${config.getFormat(name).extension}`,
         data: parsed,
       }
     })
+    return config.sortItems(name, parsedItems)
+  }
+
+  /**
+   * Load unpublished workflow entries (parsed like collection items)
+   */
+  const loadWorkflowEntries = async (): Promise<WorkflowEntry[]> => {
+    if (!backend) throw new Error('Not authenticated')
+    if (!backend.workflow) return []
+
+    const entries = await backend.workflow.listEntries()
+    return entries.map(entry => ({
+      ...entry,
+      data: config.parseCollection(entry.collection, entry.data) as Record<string, unknown>,
+    }))
+  }
+
+  /**
+   * Insert or replace an item in local collection state, keeping the default sort
+   */
+  const setItem = (collection: string, item: ContentItem) => {
+    setState('collections', collection, 'items', items => {
+      const newItem = { ...item, filename: `${item.id}${config.getFormat(collection).extension}` }
+      const exists = items.some(i => i.id === item.id)
+      const next = exists ? items.map(i => (i.id === item.id ? newItem : i)) : [...items, newItem]
+      return config.sortItems(collection, next)
+    })
+  }
+
+  /**
+   * Remove a workflow entry from local state
+   */
+  const removeEntry = (collection: string, id: string) => {
+    setState(
+      'workflow',
+      'entries',
+      produce(entries => {
+        const index = entries.findIndex(e => e.collection === collection && e.id === id)
+        if (index >= 0) {
+          entries.splice(index, 1)
+        }
+      }),
+    )
   }
 
   const actions: CMSActions = {
     async handleAuthSuccess(result: AuthResult) {
       currentToken = result.token
-      backend = backendFactory.createBackend(currentToken)
+      backend = backendFactory.createBackend(currentToken, config)
 
       setState(
         produce(s => {
           s.authenticated = true
           s.user = result.user
           s.authLoading = false
+          s.workflow.enabled = !!backend?.workflow
         }),
       )
 
@@ -205,7 +416,8 @@ export function createCMSStore(props: CMSProps): CMSStore {
           for (const name of collectionNames) {
             s.collections[name] = { items: [], loading: false, error: null }
           }
-          s.media = { files: [], loading: false, error: null }
+          s.media = { files: [], folders: [], loading: false, error: null }
+          s.workflow = { enabled: false, entries: [], loading: false, error: null }
         }),
       )
     },
@@ -217,8 +429,8 @@ export function createCMSStore(props: CMSProps): CMSStore {
       setState('dataError', null)
 
       try {
-        // Load all collections and media in parallel
-        const [collectionsData, mediaData] = await Promise.all([
+        // Load all collections, media and workflow entries in parallel
+        const [collectionsData, mediaData, workflowEntries] = await Promise.all([
           Promise.all(
             collectionNames.map(async name => ({
               name,
@@ -226,6 +438,7 @@ export function createCMSStore(props: CMSProps): CMSStore {
             })),
           ),
           backend.media.listMedia(),
+          loadWorkflowEntries(),
         ])
 
         // Update state with all data
@@ -235,6 +448,7 @@ export function createCMSStore(props: CMSProps): CMSStore {
               s.collections[name].items = items
             }
             s.media.files = mediaData
+            s.workflow.entries = workflowEntries
             s.dataLoading = false
           }),
         )
@@ -249,33 +463,40 @@ export function createCMSStore(props: CMSProps): CMSStore {
       }
     },
 
-    async saveItem(collection: string, data: Record<string, unknown>, existingSha?: string) {
+    async saveItem(
+      collection: string,
+      data: Record<string, unknown>,
+      existing?: { id: string; sha?: string },
+    ) {
       if (!backend) throw new Error('Not authenticated')
 
       const schema = config.getSchema(collection)
       if (!schema) throw new Error(`Unknown collection: ${collection}`)
 
       // Validate data against current schema
-      const parsed = config.parseCollection(collection, data) as Record<string, unknown>
-      const id = getId(parsed)
-
-      const { sha } = await backend.content.saveItem(collection, id, parsed, existingSha)
+      const parsed = parseItem(config, collection, data)
+      const id = existing?.id ?? config.createItemId(collection, parsed)
+
+      const stamped = config.stampVersion(collection, parsed)
+      const changeset = backend.changeset()
+      let sha: string | undefined
+
+      if (queueStagedUploads(changeset, collection, parsed) > 0) {
+        // The item and the files uploaded for it land in one commit
+        changeset.saveItem(collection, id, stamped, existing?.sha)
+        const result = await changeset.commit(
+          `cms: ${existing ? 'Update' : 'Create'} ${collection}/${id}`,
+        )
+        sha = result.items.find(item => item.collection === collection && item.id === id)?.sha
+        setState('media', 'files', files => [...files, ...result.files])
+      } else {
+        sha = (await backend.content.saveItem(collection, id, stamped, existing?.sha)).sha
+      }
+      actions.discardUploads()
 
       // Update local state
-      setState(
-        'collections',
-        collection,
-        'items',
-        produce(items => {
-          const index = items.findIndex(item => item.id === id)
-          const newItem = { id, filename: `${id}.json`, sha, data: parsed }
-          if (index >= 0) {
-            items[index] = newItem
-          } else {
-            items.push(newItem)
-          }
-        }),
-      )
+      setItem(collection, { id, sha, data: parsed })
+      return id
     },
 
     async deleteItem(collection: string, id: string, sha?: string) {
@@ -296,22 +517,23 @@ export function createCMSStore(props: CMSProps): CMSStore {
       )
     },
 
-    async uploadFile(file: File, fieldPath?: string): Promise<string> {
+    async uploadFile(file: File, fieldPath?: string, options?: UploadFileOptions): Promise<string> {
       if (!backend) throw new Error('Not authenticated')
 
-      const { url, sha } = await backend.media.uploadFile(file, fieldPath)
+      const imageOptions = mergeImageOptions(config.getImageOptions(), options?.image)
+      const upload = await processImage(file, imageOptions)
+      const { url, path, sha } = await backend.media.uploadFile(upload, fieldPath, options)
 
       // Add to media state immediately
-      const filename = url.split('/').pop() || ''
       setState(
         'media',
         'files',
         produce(files => {
           files.push({
-            name: filename,
-            path: filename, // Backend-specific path handling
+            name: path.split('/').pop() || '',
+            path,
             sha,
-            size: file.size,
+            size: upload.size,
             url,
           })
         }),
@@ -320,66 +542,154 @@ export function createCMSStore(props: CMSProps): CMSStore {
       return url
     },
 
-    getMediaReferences(url: string): Array<{ collection: string; id: string; field: string }> {
-      const references: Array<{
-        collection: string
-        id: string
-        field: string
-      }> = []
-
-      for (const collectionName of collectionNames) {
-        const mediaFields = getMediaFields(collectionName)
-        const items = state.collections[collectionName]?.items || []
-
-        for (const item of items) {
-          for (const field of mediaFields) {
-            if (item.data[field] === url) {
-              references.push({
-                collection: collectionName,
-                id: item.id,
-                field,
-              })
-            }
-          }
-        }
-      }
+    async stageUpload(
+      file: File,
+      fieldPath?: string,
+      options?: Pick<UploadFileOptions, 'image'>,
+    ): Promise<MediaFile> {
+      if (!backend) throw new Error('Not authenticated')
+
+      const imageOptions = mergeImageOptions(config.getImageOptions(), options?.image)
+      const upload = await processImage(file, imageOptions)
+      // A changeset that's never committed tells where the file will go
+      const { path, url } = backend.changeset().uploadFile(upload, fieldPath)
+      const staged = { name: path.split('/').pop()!, path, url, size: upload.size }
+
+      stagedUploads.push({
+        ...staged,
+        file: upload,
+        folder: fieldPath,
+        preview: URL.createObjectURL(upload),
+      })
+      return staged
+    },
+
+    mediaPreview(url: string): string {
+      return stagedUploads.find(upload => isMediaFileUrl(url, upload))?.preview ?? url
+    },
+
+    discardUploads() {
+      for (const upload of stagedUploads) URL.revokeObjectURL(upload.preview)
+      stagedUploads = []
+    },
+
+    getMediaReferences(file: {
+      path: string
+      url: string
+    }): Array<{ collection: string; id: string; field: string }> {
+      const references = referencedUrls(file).flatMap(url => mediaReferences().get(url) ?? [])
+      // An item linking the file by two urls in one field is still one reference
+      return references.filter(
+        (ref, index) =>
+          references.findIndex(
+            other =>
+              other.collection === ref.collection &&
+              other.id === ref.id &&
+              other.field === ref.field,
+          ) === index,
+      )
+    },
 
-      return references
+    getUnusedMedia(): MediaFile[] {
+      return unusedMedia()
     },
 
     async deleteMedia(url: string, path: string, sha?: string): Promise<void> {
+      await actions.deleteMediaFiles([{ url, path, sha }])
+    },
+
+    async deleteMediaFiles(
+      files: Array<{ url: string; path: string; sha?: string }>,
+    ): Promise<void> {
       if (!backend) throw new Error('Not authenticated')
+      if (files.length === 0) return
 
-      // Find and update all references (collections are already loaded)
-      const references = actions.getMediaReferences(url)
+      // Clear references and delete the files in a single commit
+      const changeset = backend.changeset()
+      const commitReferences = queueReferenceUpdates(
+        changeset,
+        files.map(file => ({ file })),
+      )
+      for (const file of files) changeset.deleteFile(file.path, file.sha)
 
-      for (const ref of references) {
-        const item = state.collections[ref.collection]?.items.find(i => i.id === ref.id)
-        if (!item) continue
+      const result = await changeset.commit(
+        files.length === 1
+          ? `cms: Delete media ${files[0].path}`
+          : `cms: Delete ${files.length} media files`,
+      )
 
-        // Create updated data with field set to undefined
-        const updatedData = { ...item.data, [ref.field]: undefined }
+      const deleted = new Set(files.map(file => file.path))
+      setState(
+        produce(s => {
+          commitReferences(s, result)
+          s.media.files = s.media.files.filter(f => !deleted.has(f.path))
+        }),
+      )
+    },
+
+    async moveMedia(moves: Array<{ path: string; to: string }>): Promise<void> {
+      if (!backend) throw new Error('Not authenticated')
+
+      const targets = new Set(state.media.files.map(file => file.path))
+      const changeset = backend.changeset()
+      const moved: Array<{ file: MediaFile; path: string; url: string }> = []
 
-        // Save the updated item
-        await actions.saveItem(ref.collection, updatedData, item.sha)
+      for (const move of moves) {
+        const file = state.media.files.find(f => f.path === move.path)
+        if (!file || move.to === move.path) continue
+        if (targets.has(move.to)) throw new Error(`A file already exists at ${move.to}`)
+        targets.add(move.to)
+
+        const { path, url } = changeset.moveFile(file.path, move.to, file.sha)
+        moved.push({ file, path, url })
       }
+      if (moved.length === 0) return
 
-      // Delete the media file
-      await backend.media.deleteFile(path, sha)
+      // Point references at the new urls in the same commit as the move
+      const commitReferences = queueReferenceUpdates(changeset, moved)
+      const message =
+        moved.length === 1
+          ? `cms: Move media ${moved[0].file.path} to ${moved[0].path}`
+          : `cms: Move ${moved.length} media files`
+      const result = await changeset.commit(message)
 
-      // Remove from local state
       setState(
-        'media',
-        'files',
-        produce(files => {
-          const index = files.findIndex(f => f.path === path)
-          if (index >= 0) {
-            files.splice(index, 1)
+        produce(s => {
+          commitReferences(s, result)
+          for (const { file, path, url } of moved) {
+            const entry = s.media.files.find(f => f.path === file.path)
+            if (!entry) continue
+            entry.name = path.split('/').pop()!
+            entry.path = path
+            entry.url = url
           }
         }),
       )
     },
 
+    async moveMediaFolder(folder: string, to: string): Promise<void> {
+      if (to === folder || to.startsWith(`${folder}/`)) {
+        throw new Error(`Cannot move ${folder} into itself`)
+      }
+      const inFolder = (name: string) => name === folder || name.startsWith(`${folder}/`)
+      const renamed = (name: string) => to + name.slice(folder.length)
+
+      await actions.moveMedia(
+        state.media.files
+          .filter(file => inFolder(mediaFolder(file)))
+          .map(file => ({ path: file.path, to: movedMediaPath(file, renamed(mediaFolder(file))) })),
+      )
+      setState('media', 'folders', folders =>
+        folders.map(name => (inFolder(name) ? renamed(name) : name)),
+      )
+    },
+
+    createMediaFolder(folder: string) {
+      if (folder && !state.media.folders.includes(folder)) {
+        setState('media', 'folders', folders => [...folders, folder])
+      }
+    },
+
     async loadSchema() {
       if (!backend) throw new Error('Not authenticated')
 
@@ -436,9 +746,117 @@ export function createCMSStore(props: CMSProps): CMSStore {
       }
     },
 
-    setCurrentView(view: 'collections' | 'media' | 'schema') {
+    async loadWorkflow() {
+      if (!backend) throw new Error('Not authenticated')
+      if (!backend.workflow) return
+
+      setState('workflow', 'loading', true)
+      setState('workflow', 'error', null)
+
+      try {
+        const entries = await loadWorkflowEntries()
+        setState(
+          produce(s => {
+            s.workflow.entries = entries
+            s.workflow.loading = false
+          }),
+        )
+      } catch (error) {
+        setState(
+          produce(s => {
+            s.workflow.loading = false
+            s.workflow.error = error instanceof Error ? error.message : 'Failed to load workflow'
+          }),
+        )
+        throw error
+      }
+    },
+
+    async saveDraft(
+      collection: string,
+      data: Record<string, unknown>,
+      existing?: { id: string; sha?: string },
+    ) {
+      if (!backend) throw new Error('Not authenticated')
+      if (!backend.workflow) throw new Error('Editorial workflow is not enabled')
+
+      // Validate data against current schema
+      const parsed = parseItem(config, collection, data)
+      const id = existing?.id ?? config.createItemId(collection, parsed)
+
+      // Drafts live on their own branch - the files they use are committed to the main one first
+      const uploads = backend.changeset()
+      if (queueStagedUploads(uploads, collection, parsed) > 0) {
+        const result = await uploads.commit(`cms: Upload media for ${collection}/${id}`)
+        setState('media', 'files', files => [...files, ...result.files])
+        actions.discardUploads()
+      }
+
+      const { sha } = await backend.workflow.saveDraft(
+        collection,
+        id,
+        config.stampVersion(collection, parsed),
+        existing?.sha,
+      )
+
+      setState(
+        'workflow',
+        'entries',
+        produce(entries => {
+          const index = entries.findIndex(e => e.collection === collection && e.id === id)
+          const status = index >= 0 ? entries[index].status : 'draft'
+          const entry = { ...entries[index], collection, id, sha, data: parsed, status }
+          if (index >= 0) {
+            entries[index] = entry
+          } else {
+            entries.push(entry)
+          }
+        }),
+      )
+      return id
+    },
+
+    async setWorkflowStatus(collection: string, id: string, status: WorkflowStatus) {
+      if (!backend?.workflow) throw new Error('Editorial workflow is not enabled')
+
+      await backend.workflow.setStatus(collection, id, status)
+
+      const index = state.workflow.entries.findIndex(
+        e => e.collection === collection && e.id === id,
+      )
+      if (index >= 0) {
+        setState('workflow', 'entries', index, 'status', status)
+      }
+    },
+
+    async publishEntry(collection: string, id: string) {
+      if (!backend?.workflow) throw new Error('Editorial workflow is not enabled')
+
+      await backend.workflow.publish(collection, id)
+
+      // Reload the published item from the main content
+      const item = await backend.content.getItem(collection, id)
+      setItem(collection, {
+        ...item,
+        data: config.parseCollection(collection, item.data) as Record<string, unknown>,
+      })
+      removeEntry(collection, id)
+    },
+
+    async discardEntry(collection: string, id: string) {
+      if (!backend?.workflow) throw new Error('Editorial workflow is not enabled')
+
+      await backend.workflow.discard(collection, id)
+      removeEntry(collection, id)
+    },
+
+    getWorkflowEntry(collection: string, id: string) {
+      return state.workflow.entries.find(e => e.collection === collection && e.id === id)
+    },
+
+    setCurrentView(view: 'collections' | 'media' | 'schema' | 'workflow') {
       setState('currentView', view)
-      if (view === 'media' || view === 'schema') {
+      if (view === 'media' || view === 'schema' || view === 'workflow') {
         setState('currentCollection', null)
         setState('currentItem', null)
       }
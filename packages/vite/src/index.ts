@@ -0,0 +1,211 @@
+import { existsSync } from 'node:fs'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { basename, dirname, relative, resolve, sep } from 'node:path'
+import type {
+  CollectionsConfig,
+  ContentSnapshot,
+  Infer,
+  PlasticineConfig,
+  SnapshotError,
+} from '@plasticine/core'
+import { createFilesystemBackend } from '@plasticine/core/filesystem'
+import { createSnapshot } from '@plasticine/core/snapshot'
+import { runnerImport, type Plugin, type ViteDevServer } from 'vite'
+
+const MODULE_ID = 'virtual:plasticine/content'
+const RESOLVED_ID = '\0' + MODULE_ID
+
+export interface PlasticinePluginOptions {
+  /** Path to the plasticine config, relative to the Vite root (default: 'plasticine.config.ts') */
+  config?: string
+  /** Path to the content directory, relative to the Vite root (default: 'content') */
+  content?: string
+  /** Where to write type declarations for the virtual module, or false to skip (default: 'src/plasticine-content.d.ts') */
+  dts?: string | false
+}
+
+/**
+ * Shape of `virtual:plasticine/content` - items of every collection in their default sort
+ * order, and the data of every singleton (undefined until it's saved)
+ */
+export type PlasticineContent<TCollections extends CollectionsConfig> = {
+  [K in keyof TCollections]: TCollections[K] extends { singleton: true }
+    ? Infer<TCollections[K]> | undefined
+    : Array<{ id: string; data: Infer<TCollections[K]> }>
+}
+
+/**
+ * Load the plasticine config through Vite, so TypeScript configs need no build step
+ */
+async function importConfig(path: string, root: string) {
+  const { module, dependencies } = await runnerImport<{ default: PlasticineConfig }>(path, {
+    root,
+    logLevel: 'error',
+    // Configs import from @plasticine/core, skip its UI - it only runs in the browser
+    resolve: { alias: [{ find: /^@plasticine\/core$/, replacement: '@plasticine/core/config' }] },
+    environments: { inline: { resolve: { noExternal: ['@plasticine/core'] } } },
+  })
+  if (!module.default || typeof module.default.parseCollection !== 'function') {
+    throw new Error(`${path} must default export a config created with defineConfig()`)
+  }
+  return { config: module.default, dependencies: [path, ...dependencies] }
+}
+
+function formatErrors(errors: SnapshotError[], contentDir: string) {
+  const lines = errors.map(error => `  ${contentDir}/${error.file}: ${error.message}`)
+  return `${errors.length} content item(s) failed validation:\n${lines.join('\n')}`
+}
+
+/**
+ * Render the virtual module - the snapshot for createStaticClient(), and content by collection
+ */
+function renderModule(config: PlasticineConfig, snapshot: ContentSnapshot) {
+  const content = Object.fromEntries(
+    config.getCollections().map(collection => {
+      const items = snapshot.collections[collection] ?? {}
+      if (config.isSingleton(collection)) return [collection, items[collection]]
+
+      const list = Object.entries(items).map(([id, data]) => ({
+        id,
+        data: data as Record<string, unknown>,
+      }))
+      return [collection, config.sortItems(collection, list)]
+    }),
+  )
+
+  return [
+    `export const snapshot = ${JSON.stringify(snapshot)}`,
+    `export default ${JSON.stringify(content)}`,
+    '',
+  ].join('\n')
+}
+
+/**
+ * Render type declarations for the virtual module, typed from the config's schemas
+ */
+function renderDts(dtsPath: string, configPath: string) {
+  let specifier = relative(dirname(dtsPath), configPath)
+    .split(sep)
+    .join('/')
+    .replace(/\.[cm]?[jt]s$/, '')
+  if (!specifier.startsWith('.')) specifier = `./${specifier}`
+
+  return [
+    '// Generated by @plasticine/vite - do not edit',
+    `declare module '${MODULE_ID}' {`,
+    `  type Collections = (typeof import('${specifier}'))['default']['collections']`,
+    '',
+    `  export const snapshot: import('@plasticine/core').ContentSnapshot`,
+    `  const content: import('@plasticine/vite').PlasticineContent<Collections>`,
+    '  export default content',
+    '}',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Vite plugin serving the local content as `virtual:plasticine/content` - validated and
+ * migrated to the latest schema version, typed from the config and reloaded on change
+ *
+ * @example
+ * ```ts
+ * // vite.config.ts
+ * import { plasticine } from '@plasticine/vite'
+ *
+ * export default defineConfig({
+ *   plugins: [plasticine()],
+ * })
+ *
+ * // app
+ * import content from 'virtual:plasticine/content'
+ *
+ * content.posts.map(post => post.data.title)
+ * ```
+ */
+export function plasticine(options: PlasticinePluginOptions = {}): Plugin {
+  let root = process.cwd()
+  let configPath = ''
+  let contentPath = ''
+  let loaded: Promise<{ config: PlasticineConfig; dependencies: string[] }> | undefined
+  let dependencies = new Set<string>()
+
+  const loadConfig = () => {
+    if (!loaded) {
+      loaded = importConfig(configPath, root).then(result => {
+        dependencies = new Set(result.dependencies)
+        return result
+      })
+      // Retry on the next request instead of caching the failure
+      loaded.catch(() => (loaded = undefined))
+    }
+    return loaded
+  }
+
+  const writeDts = async () => {
+    if (options.dts === false) return
+    const dtsPath = resolve(root, options.dts ?? 'src/plasticine-content.d.ts')
+    const code = renderDts(dtsPath, configPath)
+    // Only write on change, so type checkers and watchers aren't triggered needlessly
+    if (existsSync(dtsPath) && (await readFile(dtsPath, 'utf-8')) === code) return
+    await mkdir(dirname(dtsPath), { recursive: true })
+    await writeFile(dtsPath, code, 'utf-8')
+  }
+
+  const reload = (server: ViteDevServer) => {
+    const module = server.moduleGraph.getModuleById(RESOLVED_ID)
+    if (module) server.reloadModule(module)
+  }
+
+  return {
+    name: 'plasticine',
+
+    configResolved(resolved) {
+      root = resolved.root
+      configPath = resolve(root, options.config ?? 'plasticine.config.ts')
+      contentPath = resolve(root, options.content ?? 'content')
+    },
+
+    async buildStart() {
+      await writeDts()
+    },
+
+    configureServer(server) {
+      server.watcher.add(contentPath)
+
+      const onChange = (file: string) => {
+        if (dependencies.has(file)) {
+          loaded = undefined
+          reload(server)
+        } else if (file.startsWith(contentPath + sep)) {
+          reload(server)
+        }
+      }
+
+      server.watcher.on('add', onChange)
+      server.watcher.on('change', onChange)
+      server.watcher.on('unlink', onChange)
+    },
+
+    resolveId(id) {
+      if (id === MODULE_ID) return RESOLVED_ID
+    },
+
+    async load(id) {
+      if (id !== RESOLVED_ID) return
+
+      const { config } = await loadConfig()
+      const backend = createFilesystemBackend({
+        root: dirname(contentPath),
+        contentPath: basename(contentPath),
+      }).createBackend(undefined, config)
+
+      const { snapshot, errors } = await createSnapshot(config, backend.content)
+      if (errors.length > 0) {
+        // Fails the build, and shows the error overlay in dev
+        this.error(formatErrors(errors, relative(root, contentPath) || '.'))
+      }
+
+      return renderModule(config, snapshot)
+    },
+  }
+}